@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "AIChat" ADD COLUMN     "title" TEXT NOT NULL DEFAULT 'New chat',
+ADD COLUMN     "subjectId" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "messages" SET DEFAULT '[]';
+
+-- CreateIndex
+CREATE INDEX "AIChat_userId_updatedAt_idx" ON "AIChat"("userId", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "AIChat" ADD CONSTRAINT "AIChat_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE SET NULL ON UPDATE CASCADE;
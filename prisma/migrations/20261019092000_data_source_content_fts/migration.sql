@@ -0,0 +1,3 @@
+-- Full-text index used by keyword retrieval. Prisma cannot express expression indexes, so this
+-- index only exists in migrations; the expression must match the one in keyword-search.service.ts.
+CREATE INDEX "DataSource_content_fts_idx" ON "DataSource" USING GIN (to_tsvector('simple', coalesce("content", '')));
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "EmbeddingCache" (
+    "hash" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmbeddingCache_pkey" PRIMARY KEY ("hash")
+);
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ChunkEmbeddingStatus" AS ENUM ('PENDING', 'EMBEDDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "DataSourceChunk" (
+    "id" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "startOffset" INTEGER,
+    "endOffset" INTEGER,
+    "pageNumber" INTEGER,
+    "tokenCount" INTEGER NOT NULL,
+    "embeddingStatus" "ChunkEmbeddingStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "dataSourceId" TEXT NOT NULL,
+
+    CONSTRAINT "DataSourceChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataSourceChunk_dataSourceId_order_key" ON "DataSourceChunk"("dataSourceId", "order");
+
+-- AddForeignKey
+ALTER TABLE "DataSourceChunk" ADD CONSTRAINT "DataSourceChunk_dataSourceId_fkey" FOREIGN KEY ("dataSourceId") REFERENCES "DataSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
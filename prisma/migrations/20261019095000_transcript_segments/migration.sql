@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "DataSourceChunk" ADD COLUMN     "endTime" DOUBLE PRECISION,
+ADD COLUMN     "startTime" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "TranscriptSegment" (
+    "id" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "startTime" DOUBLE PRECISION NOT NULL,
+    "endTime" DOUBLE PRECISION NOT NULL,
+    "text" TEXT NOT NULL,
+    "dataSourceId" TEXT NOT NULL,
+
+    CONSTRAINT "TranscriptSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranscriptSegment_dataSourceId_order_key" ON "TranscriptSegment"("dataSourceId", "order");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegment" ADD CONSTRAINT "TranscriptSegment_dataSourceId_fkey" FOREIGN KEY ("dataSourceId") REFERENCES "DataSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
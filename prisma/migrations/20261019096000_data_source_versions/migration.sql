@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "DataSource" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "DataSourceVersion" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "fileType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "url" TEXT,
+    "filePath" TEXT,
+    "contentHash" TEXT,
+    "content" TEXT,
+    "uploadedAt" TIMESTAMP(3) NOT NULL,
+    "replacedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dataSourceId" TEXT NOT NULL,
+
+    CONSTRAINT "DataSourceVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DataSource_userId_contentHash_idx" ON "DataSource"("userId", "contentHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataSourceVersion_dataSourceId_version_key" ON "DataSourceVersion"("dataSourceId", "version");
+
+-- AddForeignKey
+ALTER TABLE "DataSourceVersion" ADD CONSTRAINT "DataSourceVersion_dataSourceId_fkey" FOREIGN KEY ("dataSourceId") REFERENCES "DataSource"("id") ON DELETE CASCADE ON UPDATE CASCADE;
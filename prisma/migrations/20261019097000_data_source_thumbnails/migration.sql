@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DataSource" ADD COLUMN     "thumbnailPath" TEXT;
+
+-- Thumbnails used to point at the file itself; serve them from the thumbnail endpoint instead
+UPDATE "DataSource" SET "thumbnail" = '/api/v1/data-sources/' || "id" || '/thumbnail'
+WHERE "thumbnail" IS NULL OR "thumbnail" = "url";
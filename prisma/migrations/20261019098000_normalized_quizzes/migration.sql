@@ -0,0 +1,197 @@
+-- CreateTable
+CREATE TABLE "QuizQuestion" (
+    "id" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'multiple-choice',
+    "difficulty" TEXT,
+    "points" INTEGER NOT NULL DEFAULT 1,
+    "explanation" TEXT,
+    "quizId" TEXT NOT NULL,
+
+    CONSTRAINT "QuizQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuizAnswerOption" (
+    "id" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL DEFAULT false,
+    "explanation" TEXT,
+    "questionId" TEXT NOT NULL,
+
+    CONSTRAINT "QuizAnswerOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuizAttempt" (
+    "id" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "maxScore" DOUBLE PRECISION NOT NULL,
+    "percentage" INTEGER NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "quizId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "QuizAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuizAttemptAnswer" (
+    "id" TEXT NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL,
+    "pointsEarned" DOUBLE PRECISION NOT NULL,
+    "text" TEXT,
+    "feedback" TEXT,
+    "attemptId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "selectedOptionId" TEXT,
+
+    CONSTRAINT "QuizAttemptAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- Move questions and attempts out of the Json columns. The old question and answer ids
+-- ("q1", "a1") are only unique within a quiz, so they are kept in temporary columns while
+-- attempt answers are linked to the new rows.
+ALTER TABLE "QuizQuestion" ADD COLUMN "legacyId" TEXT;
+ALTER TABLE "QuizAnswerOption" ADD COLUMN "legacyId" TEXT;
+ALTER TABLE "QuizAttempt" ADD COLUMN "legacyIndex" INTEGER;
+
+INSERT INTO "QuizQuestion" ("id", "order", "content", "type", "difficulty", "points", "explanation", "quizId", "legacyId")
+SELECT gen_random_uuid()::text,
+    q."index" - 1,
+    coalesce(q."value"->>'content', q."value"->>'text', ''),
+    coalesce(q."value"->>'type', 'multiple-choice'),
+    q."value"->>'difficulty',
+    CASE WHEN jsonb_typeof(q."value"->'points') = 'number'
+        THEN round((q."value"->>'points')::numeric)::integer ELSE 1 END,
+    q."value"->>'explanation',
+    quiz."id",
+    q."value"->>'id'
+FROM "Quiz" quiz
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(quiz."questions") = 'array' THEN quiz."questions" ELSE '[]'::jsonb END
+) WITH ORDINALITY AS q("value", "index");
+
+-- Generated questions list their answers as objects
+INSERT INTO "QuizAnswerOption" ("id", "order", "content", "isCorrect", "explanation", "questionId", "legacyId")
+SELECT gen_random_uuid()::text,
+    a."index" - 1,
+    coalesce(a."value"->>'content', ''),
+    coalesce(a."value"->'isCorrect' = 'true'::jsonb, false),
+    a."value"->>'explanation',
+    question."id",
+    a."value"->>'id'
+FROM "QuizQuestion" question
+JOIN "Quiz" quiz ON quiz."id" = question."quizId"
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(quiz."questions"->question."order"->'answers') = 'array'
+        THEN quiz."questions"->question."order"->'answers' ELSE '[]'::jsonb END
+) WITH ORDINALITY AS a("value", "index");
+
+-- Manually created questions list their options as text, with the correct one repeated
+INSERT INTO "QuizAnswerOption" ("id", "order", "content", "isCorrect", "questionId")
+SELECT gen_random_uuid()::text,
+    o."index" - 1,
+    o."value" #>> '{}',
+    (o."value" #>> '{}') = (quiz."questions"->question."order"->>'correctAnswer'),
+    question."id"
+FROM "QuizQuestion" question
+JOIN "Quiz" quiz ON quiz."id" = question."quizId"
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(quiz."questions"->question."order"->'answers') IS DISTINCT FROM 'array'
+        AND jsonb_typeof(quiz."questions"->question."order"->'options') = 'array'
+        THEN quiz."questions"->question."order"->'options' ELSE '[]'::jsonb END
+) WITH ORDINALITY AS o("value", "index");
+
+INSERT INTO "QuizAttempt" ("id", "score", "maxScore", "percentage", "passed", "startedAt", "completedAt", "quizId", "userId", "legacyIndex")
+SELECT gen_random_uuid()::text,
+    coalesce((a."value"->>'score')::double precision, 0),
+    coalesce((a."value"->>'maxScore')::double precision, 0),
+    coalesce(round((a."value"->>'percentage')::numeric)::integer, 0),
+    coalesce(a."value"->'passed' = 'true'::jsonb, false),
+    coalesce(
+        (a."value"->>'startedAt')::timestamptz AT TIME ZONE 'UTC',
+        (a."value"->>'completedAt')::timestamptz AT TIME ZONE 'UTC',
+        quiz."updatedAt"
+    ),
+    coalesce((a."value"->>'completedAt')::timestamptz AT TIME ZONE 'UTC', quiz."updatedAt"),
+    quiz."id",
+    coalesce(a."value"->>'userId', quiz."userId"),
+    a."index" - 1
+FROM "Quiz" quiz
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(quiz."attempts") = 'array' THEN quiz."attempts" ELSE '[]'::jsonb END
+) WITH ORDINALITY AS a("value", "index");
+
+INSERT INTO "QuizAttemptAnswer" ("id", "isCorrect", "pointsEarned", "text", "feedback", "attemptId", "questionId", "selectedOptionId")
+SELECT DISTINCT ON (attempt."id", question."id")
+    gen_random_uuid()::text,
+    coalesce(ans."value"->'isCorrect' = 'true'::jsonb, false),
+    coalesce((ans."value"->>'pointsEarned')::double precision, 0),
+    CASE WHEN option."id" IS NULL THEN nullif(ans."value"->>'givenAnswer', '') END,
+    ans."value"->>'feedback',
+    attempt."id",
+    question."id",
+    option."id"
+FROM "QuizAttempt" attempt
+JOIN "Quiz" quiz ON quiz."id" = attempt."quizId"
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(quiz."attempts"->attempt."legacyIndex"->'answers') = 'array'
+        THEN quiz."attempts"->attempt."legacyIndex"->'answers' ELSE '[]'::jsonb END
+) AS ans("value")
+JOIN "QuizQuestion" question
+    ON question."quizId" = quiz."id" AND question."legacyId" = ans."value"->>'questionId'
+LEFT JOIN "QuizAnswerOption" option
+    ON option."questionId" = question."id" AND option."legacyId" = ans."value"->>'givenAnswer'
+ORDER BY attempt."id", question."id";
+
+ALTER TABLE "QuizQuestion" DROP COLUMN "legacyId";
+ALTER TABLE "QuizAnswerOption" DROP COLUMN "legacyId";
+ALTER TABLE "QuizAttempt" DROP COLUMN "legacyIndex";
+
+-- AlterTable
+ALTER TABLE "Quiz" DROP COLUMN "attempts",
+DROP COLUMN "questions";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizQuestion_quizId_order_key" ON "QuizQuestion"("quizId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizAnswerOption_questionId_order_key" ON "QuizAnswerOption"("questionId", "order");
+
+-- CreateIndex
+CREATE INDEX "QuizAttempt_quizId_completedAt_idx" ON "QuizAttempt"("quizId", "completedAt");
+
+-- CreateIndex
+CREATE INDEX "QuizAttempt_userId_completedAt_idx" ON "QuizAttempt"("userId", "completedAt");
+
+-- CreateIndex
+CREATE INDEX "QuizAttemptAnswer_questionId_idx" ON "QuizAttemptAnswer"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizAttemptAnswer_attemptId_questionId_key" ON "QuizAttemptAnswer"("attemptId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "QuizQuestion" ADD CONSTRAINT "QuizQuestion_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizAnswerOption" ADD CONSTRAINT "QuizAnswerOption_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "QuizQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizAttempt" ADD CONSTRAINT "QuizAttempt_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizAttempt" ADD CONSTRAINT "QuizAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizAttemptAnswer" ADD CONSTRAINT "QuizAttemptAnswer_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "QuizAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizAttemptAnswer" ADD CONSTRAINT "QuizAttemptAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "QuizQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizAttemptAnswer" ADD CONSTRAINT "QuizAttemptAnswer_selectedOptionId_fkey" FOREIGN KEY ("selectedOptionId") REFERENCES "QuizAnswerOption"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "QuizSessionStatus" AS ENUM ('ACTIVE', 'SUBMITTED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "QuizAttempt" ADD COLUMN     "sessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "QuizSession" (
+    "id" TEXT NOT NULL,
+    "status" "QuizSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "quizId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "QuizSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuizSessionAnswer" (
+    "id" TEXT NOT NULL,
+    "answerId" TEXT,
+    "text" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+
+    CONSTRAINT "QuizSessionAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizAttempt_sessionId_key" ON "QuizAttempt"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "QuizSession_quizId_userId_status_idx" ON "QuizSession"("quizId", "userId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizSessionAnswer_sessionId_questionId_key" ON "QuizSessionAnswer"("sessionId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "QuizAttempt" ADD CONSTRAINT "QuizAttempt_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "QuizSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizSession" ADD CONSTRAINT "QuizSession_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizSession" ADD CONSTRAINT "QuizSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizSessionAnswer" ADD CONSTRAINT "QuizSessionAnswer_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "QuizSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuizSessionAnswer" ADD CONSTRAINT "QuizSessionAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "QuizQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
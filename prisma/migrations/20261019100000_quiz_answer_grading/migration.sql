@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "QuizAnswerGrader" AS ENUM ('AUTO', 'AI', 'TEACHER');
+
+-- AlterTable
+ALTER TABLE "QuizAttemptAnswer" ADD COLUMN     "gradedBy" "QuizAnswerGrader" NOT NULL DEFAULT 'AUTO',
+ADD COLUMN     "justification" TEXT;
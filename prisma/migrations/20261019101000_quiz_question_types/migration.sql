@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "QuizQuestion" ADD COLUMN     "numericAnswer" DOUBLE PRECISION,
+ADD COLUMN     "tolerance" DOUBLE PRECISION,
+ADD COLUMN     "unit" TEXT;
+
+-- AlterTable
+ALTER TABLE "QuizAnswerOption" ADD COLUMN     "match" TEXT;
+
+-- AlterTable
+ALTER TABLE "QuizAttemptAnswer" ADD COLUMN     "selectedOptionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "matches" JSONB;
+
+-- AlterTable
+ALTER TABLE "QuizSessionAnswer" ADD COLUMN     "answerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "matches" JSONB;
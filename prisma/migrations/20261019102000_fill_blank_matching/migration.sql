@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "QuizAnswerMatchRule" AS ENUM ('EXACT', 'NORMALIZED', 'NUMERIC', 'TYPO', 'AI_EQUIVALENT');
+
+-- AlterTable
+ALTER TABLE "QuizQuestion" ADD COLUMN     "typoTolerance" INTEGER,
+ADD COLUMN     "aiEquivalence" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "QuizAttemptAnswer" ADD COLUMN     "matchRule" "QuizAnswerMatchRule";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "QuizAnswerOption" ADD COLUMN     "matchKey" TEXT;
+
+-- Give existing options a key unrelated to their id
+UPDATE "QuizAnswerOption" SET "matchKey" = gen_random_uuid()::text;
+
+ALTER TABLE "QuizAnswerOption" ALTER COLUMN "matchKey" SET NOT NULL;
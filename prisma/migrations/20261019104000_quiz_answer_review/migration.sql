@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "QuizAttemptAnswer" ADD COLUMN     "needsReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- Answers the AI could not grade so far
+UPDATE "QuizAttemptAnswer" SET "needsReview" = true
+WHERE "gradedBy" = 'AUTO'
+  AND "justification" = 'This answer could not be graded automatically and is awaiting review.';
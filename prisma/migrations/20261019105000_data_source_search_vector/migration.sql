@@ -0,0 +1,11 @@
+-- Material search used to build this from the content of every material on each query. Tags
+-- live in another table, so they are still added at query time.
+-- Content is cut off well below the 1MB limit of a tsvector, so long transcripts can be saved.
+ALTER TABLE "DataSource" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'C') ||
+  setweight(to_tsvector('simple', left(coalesce("content", ''), 500000)), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "DataSource_searchVector_idx" ON "DataSource" USING GIN ("searchVector");
@@ -0,0 +1,15 @@
+-- Queue thumbnails for PDFs and images uploaded before thumbnails were generated, which show
+-- type icons until then
+INSERT INTO "Job" ("id", "type", "payload", "maxAttempts", "dataSourceId", "updatedAt")
+SELECT gen_random_uuid()::text, 'generate-thumbnail', jsonb_build_object('dataSourceId', ds."id"),
+  3, ds."id", CURRENT_TIMESTAMP
+FROM "DataSource" ds
+WHERE ds."type" IN ('PDF', 'IMAGE')
+  AND ds."filePath" IS NOT NULL
+  AND ds."thumbnailPath" IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "Job" j
+    WHERE j."dataSourceId" = ds."id"
+      AND j."type" = 'generate-thumbnail'
+      AND j."status" IN ('PENDING', 'RUNNING')
+  );
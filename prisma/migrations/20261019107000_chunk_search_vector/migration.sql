@@ -0,0 +1,8 @@
+-- Keyword search used to split the content of every matching data source into chunks on
+-- each query; the stored chunks are searched instead
+ALTER TABLE "DataSourceChunk" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', "text")
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "DataSourceChunk_searchVector_idx" ON "DataSourceChunk" USING GIN ("searchVector");
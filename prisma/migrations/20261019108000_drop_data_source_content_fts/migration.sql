@@ -0,0 +1,4 @@
+-- Keyword retrieval searches the chunks and material search the "searchVector" column, so this
+-- index is unused. Its tsvector covers the whole content and fails for content over the 1MB
+-- limit, which blocked saving the text of long transcripts.
+DROP INDEX IF EXISTS "DataSource_content_fts_idx";
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('STUDENT', 'TEACHER');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "UserRole" NOT NULL DEFAULT 'STUDENT';
+
+-- AlterTable
+ALTER TABLE "QuizAttemptAnswer" ADD COLUMN     "originalPointsEarned" DOUBLE PRECISION,
+ADD COLUMN     "overriddenAt" TIMESTAMP(3),
+ADD COLUMN     "overriddenById" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "QuizAttemptAnswer" ADD CONSTRAINT "QuizAttemptAnswer_overriddenById_fkey" FOREIGN KEY ("overriddenById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
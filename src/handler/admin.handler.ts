@@ -1,14 +1,14 @@
 import { Request, Response } from 'express';
-import { resetMilvusIndex } from '../services/milvus';
+import { resetVectorIndex } from '../services/vector.service';
 
 /**
- * @desc Reset Milvus index
+ * @desc Reset the vector store index
  * @route POST /api/v1/admin/reset-milvus-index
  * @protected Admin only
  */
 export const resetMilvusIndexHandler = async (req: Request, res: Response) => {
   try {
-    const result = await resetMilvusIndex();
+    const result = await resetVectorIndex();
 
     if (result.success) {
       return void res.json({
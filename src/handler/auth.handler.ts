@@ -145,6 +145,7 @@ export const getProfile = async (req: Request, res: Response) => {
         language: user.language,
         selectedNeeds: user.selectedNeeds,
         syllabusContent: user.syllabusContent,
+        role: user.role,
         createdAt: user.createdAt,
         stats: updatedUserStats,
       },
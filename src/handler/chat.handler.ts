@@ -0,0 +1,357 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import db from '../db/db';
+import {
+  ChatTurn,
+  Citation,
+  generateTutorAnswer,
+  retrieveContext,
+  SEARCH_UNAVAILABLE_ANSWER,
+} from '../services/rag.service';
+
+const DEFAULT_CHAT_TITLE = 'New chat';
+
+/**
+ * Number of most recent messages included in the prompt for follow-up questions
+ */
+const MAX_HISTORY_MESSAGES = 10;
+
+interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  confidence?: string;
+  suggestions?: string[];
+  citations?: Citation[];
+}
+
+const toMessages = (messages: unknown): ChatMessage[] =>
+  Array.isArray(messages) ? (messages as unknown as ChatMessage[]) : [];
+
+const titleFromMessage = (content: string) =>
+  content.length > 60 ? `${content.substring(0, 57).trimEnd()}...` : content;
+
+/**
+ * @desc Start a new tutor conversation
+ * @route POST /api/v1/chats
+ * @protected
+ */
+export const createChat = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { title, subjectId } = req.body;
+
+    if (subjectId) {
+      const subject = await db.subject.findFirst({ where: { id: subjectId, userId } });
+      if (!subject) {
+        return void res.status(404).json({
+          success: false,
+          message: 'Subject not found',
+        });
+      }
+    }
+
+    const chat = await db.aIChat.create({
+      data: {
+        userId,
+        title: title || DEFAULT_CHAT_TITLE,
+        subjectId: subjectId || null,
+        messages: [],
+      },
+    });
+
+    return void res.status(201).json({
+      success: true,
+      chat,
+    });
+  } catch (error) {
+    console.error('Error creating chat:', error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Failed to create chat',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc List the user's tutor conversations, most recently active first
+ * @route GET /api/v1/chats
+ * @protected
+ */
+export const getAllChats = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { subjectId } = req.query;
+
+    const whereClause: any = { userId };
+    if (subjectId) whereClause.subjectId = subjectId as string;
+
+    const chats = await db.aIChat.findMany({
+      where: whereClause,
+      include: {
+        subject: {
+          select: { name: true, color: true },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return void res.json({
+      success: true,
+      chats: chats.map((chat) => {
+        const messages = toMessages(chat.messages);
+        const lastMessage = messages[messages.length - 1];
+        return {
+          id: chat.id,
+          title: chat.title,
+          subjectId: chat.subjectId,
+          subjectName: chat.subject?.name,
+          subjectColor: chat.subject?.color,
+          messageCount: messages.length,
+          lastMessage: lastMessage ? lastMessage.content.substring(0, 200) : null,
+          createdAt: chat.createdAt,
+          updatedAt: chat.updatedAt,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching chats:', error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Failed to fetch chats',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc Get a tutor conversation with all of its messages
+ * @route GET /api/v1/chats/:id
+ * @protected
+ */
+export const getChatById = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.params;
+
+    const chat = await db.aIChat.findFirst({
+      where: { id, userId },
+      include: {
+        subject: {
+          select: { name: true, color: true },
+        },
+      },
+    });
+
+    if (!chat) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Chat not found',
+      });
+    }
+
+    return void res.json({
+      success: true,
+      chat: { ...chat, messages: toMessages(chat.messages) },
+    });
+  } catch (error) {
+    console.error('Error fetching chat:', error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Failed to fetch chat',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc Rename a tutor conversation
+ * @route PATCH /api/v1/chats/:id
+ * @protected
+ */
+export const renameChat = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.params;
+    const { title } = req.body;
+
+    const chat = await db.aIChat.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!chat) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Chat not found',
+      });
+    }
+
+    const updatedChat = await db.aIChat.update({
+      where: { id },
+      data: { title },
+      select: { id: true, title: true, subjectId: true, createdAt: true, updatedAt: true },
+    });
+
+    return void res.json({
+      success: true,
+      chat: updatedChat,
+    });
+  } catch (error) {
+    console.error('Error renaming chat:', error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Failed to rename chat',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc Delete a tutor conversation
+ * @route DELETE /api/v1/chats/:id
+ * @protected
+ */
+export const deleteChat = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.params;
+
+    const chat = await db.aIChat.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!chat) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Chat not found',
+      });
+    }
+
+    await db.aIChat.delete({ where: { id } });
+
+    return void res.json({
+      success: true,
+      message: 'Chat deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting chat:', error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Failed to delete chat',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc Send a message in a tutor conversation and get the tutor's reply. Context is
+ * retrieved from the user's materials and the recent turns are included in the prompt.
+ * @route POST /api/v1/chats/:id/messages
+ * @protected
+ */
+export const sendChatMessage = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.params;
+    const { content } = req.body;
+
+    const chat = await db.aIChat.findFirst({ where: { id, userId } });
+    if (!chat) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Chat not found',
+      });
+    }
+
+    const previousMessages = toMessages(chat.messages);
+    const history: ChatTurn[] = previousMessages
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(({ role, content }) => ({ role, content }));
+
+    // Follow-ups such as "explain that again" carry little meaning on their own, so the
+    // previous question is searched together with the new one
+    const lastUserMessage = [...previousMessages].reverse().find((m) => m.role === 'user');
+    const retrievalQuery = lastUserMessage ? `${lastUserMessage.content}\n${content}` : content;
+
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content,
+      createdAt: new Date().toISOString(),
+    };
+
+    let contextChunks;
+    try {
+      contextChunks = await retrieveContext(userId, retrievalQuery, chat.subjectId || undefined);
+    } catch (searchError) {
+      console.error('Error during search:', searchError);
+    }
+
+    let assistantMessage: ChatMessage;
+    if (contextChunks) {
+      try {
+        const { answer, confidence, suggestions, citations } = await generateTutorAnswer(
+          content,
+          contextChunks,
+          history
+        );
+
+        assistantMessage = {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: answer,
+          createdAt: new Date().toISOString(),
+          confidence,
+          suggestions,
+          citations,
+        };
+      } catch (llmError) {
+        // Nothing is saved, so the message can simply be sent again
+        console.error('Error generating chat answer:', llmError);
+        return void res.status(502).json({
+          success: false,
+          message: 'Failed to generate an answer. Please try again.',
+        });
+      }
+    } else {
+      assistantMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: SEARCH_UNAVAILABLE_ANSWER,
+        createdAt: new Date().toISOString(),
+        citations: [],
+      };
+    }
+
+    // Append in a single statement, so turns sent at the same time are all kept. A new chat is
+    // named after its first message.
+    const [updatedChat] = await db.$queryRaw<{ id: string; title: string; updatedAt: Date }[]>`
+      UPDATE "AIChat"
+      SET "messages" = "messages" || ${JSON.stringify([userMessage, assistantMessage])}::jsonb,
+        "title" = CASE
+          WHEN "title" = ${DEFAULT_CHAT_TITLE} AND jsonb_array_length("messages") = 0
+          THEN ${titleFromMessage(content)}
+          ELSE "title"
+        END,
+        "updatedAt" = now()
+      WHERE "id" = ${id}
+      RETURNING "id", "title", "updatedAt"
+    `;
+    if (!updatedChat) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Chat not found',
+      });
+    }
+
+    return void res.status(201).json({
+      success: true,
+      chat: updatedChat,
+      userMessage,
+      assistantMessage,
+    });
+  } catch (error) {
+    console.error('Error sending chat message:', error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Failed to send message',
+      error: (error as Error).message,
+    });
+  }
+};
@@ -1,20 +1,6 @@
 import { Request, Response } from 'express';
 import db from '../db/db';
-import { VertexAI } from '@google-cloud/vertexai';
-
-const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'learnability-project';
-const LOCATION = 'us-central1';
-const MODEL_NAME = 'gemini-2.5-flash';
-
-let vertexAI: VertexAI;
-let generativeModel: any;
-
-try {
-  vertexAI = new VertexAI({ project: PROJECT_ID, location: LOCATION });
-  generativeModel = vertexAI.getGenerativeModel({ model: MODEL_NAME });
-} catch (error) {
-  console.error('Error initializing Vertex AI client:', error);
-}
+import { getLLM } from '../services/llm';
 
 export const showUserFeed = async (req: Request, res: Response) => {
   try {
@@ -28,12 +14,6 @@ export const showUserFeed = async (req: Request, res: Response) => {
         message: 'User not found.',
       });
     }
-    if (!generativeModel) {
-      return void res.status(500).json({
-        success: false,
-        message: 'Gemini model not initialized',
-      });
-    }
     const systemPrompt = `
 You are a helpful AI tutor designed to assist students in learning effectively.
 Based on the provided context—including the student's interests, academic standard, and syllabus—generate a list of high-quality educational resources.
@@ -64,34 +44,23 @@ IMPORTANT: You MUST respond with a valid JSON object in the following format:
       interests: user.interests,
     };
     console.log(contextText);
-    const result = await generativeModel.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              text: `${systemPrompt}\n\nContext:\n${JSON.stringify(contextText)}\n\nTask: Generate educational content for my feed.`,
-            },
-          ],
-        },
-      ],
-      generationConfig: {
+    const feed = await getLLM('feed').generateJSON(
+      `${systemPrompt}\n\nContext:\n${JSON.stringify(contextText)}\n\nTask: Generate educational content for my feed.`,
+      {
         maxOutputTokens: 8192,
         temperature: 1,
         topP: 0.95,
-        responseMimeType: 'application/json',
-      },
-    });
+      }
+    );
 
-    const response = result.response;
-    if (!response || !response.candidates || response.candidates.length === 0) {
+    if (!feed) {
       return void res.status(500).json({
         success: false,
         message: 'No response generated from AI',
       });
     }
 
-    const answer = response.candidates[0].content.parts[0].text;
+    const answer = JSON.stringify(feed);
 
     return void res.status(200).json({
       success: true,
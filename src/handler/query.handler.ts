@@ -1,31 +1,22 @@
 import { Request, Response } from 'express';
-import { VertexAI } from '@google-cloud/vertexai';
-import { searchMilvus } from '../services/milvus';
-import db from '../db/db';
-
-const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'learnability-project';
-const LOCATION = 'us-central1';
-const MODEL_NAME = 'gemini-2.5-flash';
-
-let vertexAI: VertexAI;
-let generativeModel: any;
-
-try {
-  vertexAI = new VertexAI({ project: PROJECT_ID, location: LOCATION });
-  generativeModel = vertexAI.getGenerativeModel({ model: MODEL_NAME });
-} catch (error) {
-  console.error('Error initializing Vertex AI client:', error);
-}
+import {
+  buildSources,
+  generateTutorAnswer,
+  NO_CONTEXT_ANSWER,
+  retrieveContext,
+  SEARCH_UNAVAILABLE_ANSWER,
+  streamTutorAnswer,
+} from '../services/rag.service';
 
 /**
- * @desc Answer a user query using RAG with Milvus and Gemini
+ * @desc Answer a user query using RAG over the vector store and the configured LLM
  * @route POST /api/v1/user-query
  * @protected
  */
 export const answerUserQuery = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
-    const { query, subjectId } = req.body;
+    const { query, subjectId, mode, topK, rerank } = req.body;
 
     if (!query || typeof query !== 'string') {
       return void res.status(400).json({
@@ -34,121 +25,31 @@ export const answerUserQuery = async (req: Request, res: Response) => {
       });
     }
 
-    if (!generativeModel) {
-      return void res.status(500).json({
-        success: false,
-        message: 'Gemini model not initialized',
-      });
-    }
-
-    const searchOptions: {
-      topK?: number;
-      subjectId?: string;
-      dataSourceIds?: string[];
-    } = {
-      topK: 3,
-    };
-
     try {
-      let dataSourceIds: string[] = [];
-      if (subjectId) {
-        console.log(`Searching for data sources in subject: ${subjectId}`);
-        const whereClause: any = { userId, subjectId };
-
-        const dataSources = await db.dataSource.findMany({
-          where: whereClause,
-          select: { id: true },
-        });
-
-        dataSourceIds = dataSources.map((ds: { id: string }) => ds.id);
-        console.log(`Found ${dataSourceIds.length} data sources in this subject`);
-
-        if (dataSourceIds.length > 0) {
-          searchOptions.dataSourceIds = dataSourceIds;
-        } else {
-          console.log('No data sources found, falling back to subject ID search');
-          searchOptions.subjectId = subjectId;
-        }
-      }
-
-      console.log('Search options:', searchOptions);
-      const contextChunks = await searchMilvus(query, userId, searchOptions);
-      console.log(`Found ${contextChunks.length} context chunks`);
+      const contextChunks = await retrieveContext(userId, query, subjectId, { mode, topK, rerank });
 
       if (contextChunks.length === 0) {
         return void res.status(200).json({
           success: true,
-          answer: `I couldn't find any relevant information related to your question in the materials for this subject. Would you like to add more materials on this topic?`,
+          answer: NO_CONTEXT_ANSWER,
           query,
           relevanceScore: 0,
+          citations: [],
           subjectId: subjectId || null,
         });
       }
 
-      const contextText = contextChunks.map((chunk) => chunk.text).join('\n\n');
-
-      const systemPrompt = `
-      You are a helpful AI tutor designed to help students learn. 
-      Your knowledge comes from the provided context only.
-      If the context doesn't contain enough information to fully answer the question, acknowledge what you know 
-      from the context and suggest what additional information might be needed.
-      Always be encouraging, clear, and explain concepts in a way that's easy to understand.
-      
-      IMPORTANT: You MUST respond with a valid JSON object in the following format:
-      {
-        "answer": "Your detailed response here",
-        "confidence": "high" | "medium" | "low",
-        "suggestions": ["optional array of follow-up questions or topics to explore"]
-      }
-    `;
-
-      const result = await generativeModel.generateContent({
-        contents: [
-          {
-            role: 'user',
-            parts: [
-              { text: `${systemPrompt}\n\nContext:\n${contextText}\n\nUser Question: ${query}` },
-            ],
-          },
-        ],
-        generationConfig: {
-          maxOutputTokens: 8192,
-          temperature: 1,
-          topP: 0.95,
-          responseMimeType: 'application/json',
-        },
-      });
-
-      const response = result.response;
-      if (!response || !response.candidates || response.candidates.length === 0) {
-        return void res.status(500).json({
-          success: false,
-          message: 'No response generated from AI',
-        });
-      }
-
-      const rawAnswer = response.candidates[0].content.parts[0].text;
-      
-      // Parse the JSON response from Gemini and extract the answer text
-      let answerText = rawAnswer;
-      let confidence = 'medium';
-      let suggestions: string[] = [];
-      
-      try {
-        const parsedAnswer = JSON.parse(rawAnswer);
-        answerText = parsedAnswer.answer || rawAnswer;
-        confidence = parsedAnswer.confidence || 'medium';
-        suggestions = parsedAnswer.suggestions || [];
-      } catch (parseError) {
-        // If parsing fails, use the raw answer as-is
-        console.log('Could not parse AI response as JSON, using raw text');
-      }
+      const { answer, confidence, suggestions, citations } = await generateTutorAnswer(
+        query,
+        contextChunks
+      );
 
       return void res.status(200).json({
         success: true,
-        answer: answerText,
+        answer,
         confidence,
         suggestions,
+        citations,
         query,
         relevanceScore: contextChunks.length > 0 ? contextChunks[0].score : 0,
         subjectId: subjectId || null,
@@ -157,10 +58,10 @@ export const answerUserQuery = async (req: Request, res: Response) => {
       console.error('Error during search:', searchError);
       return void res.status(200).json({
         success: true,
-        answer:
-          "I'm having trouble searching through your materials right now. This could be because the vector database is still initializing or needs maintenance. Please try again in a few moments.",
+        answer: SEARCH_UNAVAILABLE_ANSWER,
         query,
         relevanceScore: 0,
+        citations: [],
         subjectId: subjectId || null,
       });
     }
@@ -173,3 +74,92 @@ export const answerUserQuery = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * @desc Answer a user query using RAG, streaming the answer as Server-Sent Events
+ * @route POST /api/v1/user-query/stream
+ * @protected
+ */
+export const streamUserQuery = async (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const { query, subjectId, mode, topK, rerank } = req.body;
+
+  if (!query || typeof query !== 'string') {
+    return void res.status(400).json({
+      success: false,
+      message: 'Query is required and must be a string',
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: any) => {
+    if (closed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    let contextChunks;
+    try {
+      contextChunks = await retrieveContext(userId, query, subjectId, { mode, topK, rerank });
+    } catch (searchError) {
+      console.error('Error during search:', searchError);
+      send('token', { text: SEARCH_UNAVAILABLE_ANSWER });
+      send('done', {
+        answer: SEARCH_UNAVAILABLE_ANSWER,
+        query,
+        relevanceScore: 0,
+        sources: [],
+        citations: [],
+        subjectId: subjectId || null,
+      });
+      return void res.end();
+    }
+
+    if (contextChunks.length === 0) {
+      send('token', { text: NO_CONTEXT_ANSWER });
+      send('done', {
+        answer: NO_CONTEXT_ANSWER,
+        query,
+        relevanceScore: 0,
+        sources: [],
+        citations: [],
+        subjectId: subjectId || null,
+      });
+      return void res.end();
+    }
+
+    const { answer, confidence, suggestions, citations } = await streamTutorAnswer(
+      query,
+      contextChunks,
+      (text) => send('token', { text })
+    );
+
+    send('done', {
+      answer,
+      confidence,
+      suggestions,
+      query,
+      relevanceScore: contextChunks[0].score,
+      sources: buildSources(contextChunks),
+      citations,
+      subjectId: subjectId || null,
+    });
+  } catch (error) {
+    console.error('Error streaming answer to user query:', error);
+    send('error', { message: 'Failed to answer query', error: (error as Error).message });
+  }
+
+  res.end();
+};
@@ -1,6 +1,28 @@
 import { Request, Response } from 'express';
+import { QuizSessionStatus } from '@prisma/client';
 import db from '../db/db';
-import { generateQuiz, saveQuiz, recordQuizAttempt } from '../services/quiz.service';
+import { OverrideQuizAnswerGradeInput, SaveQuizSessionAnswersInput } from '../schemas/quiz.schema';
+import {
+  generateQuiz,
+  saveQuiz,
+  recordQuizAttempt,
+  overrideQuizAnswerGrade,
+  formatQuizAttempt,
+  formatQuizQuestionForTaking,
+  quizQuestionsInclude,
+  quizAttemptAnswersInclude,
+} from '../services/quiz.service';
+import {
+  finalizeQuizSession,
+  formatQuizSession,
+  formatQuizSessionAnswer,
+  getActiveQuizSession,
+  getRemainingSeconds,
+  isQuizSessionExpired,
+  saveQuizSessionAnswers,
+  startQuizSession,
+} from '../services/quiz-session.service';
+import { isOpenEndedQuestion } from '../services/quiz-grading.service';
 
 /**
  * @desc Get all quizzes for a user
@@ -75,6 +97,7 @@ export const getQuizById = async (req: Request, res: Response) => {
         lesson: {
           select: { title: true },
         },
+        ...quizQuestionsInclude,
       },
     });
 
@@ -85,22 +108,31 @@ export const getQuizById = async (req: Request, res: Response) => {
       });
     }
 
-    const attempts = quiz.attempts ? (quiz.attempts as any[]) : [];
-    const hasAttempted = attempts.length > 0;
-    const lastAttempt = hasAttempted ? attempts[attempts.length - 1] : null;
-
+    const scores = await db.quizAttempt.aggregate({
+      where: { quizId: id },
+      _count: { _all: true },
+      _max: { percentage: true },
+    });
+    const attempts =
+      includeAttempts === 'true'
+        ? await db.quizAttempt.findMany({
+            where: { quizId: id },
+            orderBy: { completedAt: 'asc' },
+            include: quizAttemptAnswersInclude,
+          })
+        : [];
+
+    // Correct answers are only revealed through the results of an attempt
     const quizWithMeta = {
       ...quiz,
-      hasAttempted,
-      lastAttempt: includeAttempts === 'true' ? lastAttempt : null,
-      bestScore: hasAttempted ? Math.max(...attempts.map((a) => a.percentage)) : 0,
-      attemptsCount: attempts.length,
+      questions: quiz.questions.map(formatQuizQuestionForTaking),
+      attempts: attempts.map(formatQuizAttempt),
+      hasAttempted: scores._count._all > 0,
+      lastAttempt: attempts.length > 0 ? formatQuizAttempt(attempts[attempts.length - 1]) : null,
+      bestScore: scores._max.percentage || 0,
+      attemptsCount: scores._count._all,
     };
 
-    if (includeAttempts !== 'true') {
-      quizWithMeta.attempts = [];
-    }
-
     return void res.json({
       success: true,
       quiz: quizWithMeta,
@@ -186,6 +218,75 @@ export const generateQuizHandler = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Convert a manually written question ({ text, type, options, correctAnswer, ... }) to the
+ * format generated questions use
+ */
+const toGeneratedQuestion = (question: any) => {
+  const type = question.type || 'multiple-choice';
+  const generated = {
+    content: question.text,
+    type,
+    difficulty: question.difficulty,
+    explanation: question.explanation,
+    typoTolerance: question.typoTolerance,
+    aiEquivalence: question.aiEquivalence,
+  };
+
+  switch (type) {
+    case 'matching':
+      return {
+        ...generated,
+        answers: question.pairs.map((pair: { prompt: string; match: string }) => ({
+          content: pair.prompt,
+          match: pair.match,
+          isCorrect: true,
+        })),
+      };
+    case 'numeric':
+      return {
+        ...generated,
+        answers: [],
+        numericAnswer: {
+          value: question.value,
+          tolerance: question.tolerance,
+          unit: question.unit,
+        },
+      };
+    case 'ordering':
+      // Options are given in the correct order
+      return {
+        ...generated,
+        answers: question.options.map((option: string) => ({ content: option, isCorrect: true })),
+      };
+    case 'fill-blank':
+      return {
+        ...generated,
+        answers: [question.correctAnswer, ...(question.acceptedAnswers || [])].map(
+          (answer: string) => ({ content: answer, isCorrect: true })
+        ),
+      };
+    case 'short-answer':
+    case 'essay':
+      return {
+        ...generated,
+        answers: question.correctAnswer
+          ? [{ content: question.correctAnswer, isCorrect: true }]
+          : [],
+      };
+    default: {
+      const correctAnswers: string[] = question.correctAnswers || [question.correctAnswer];
+      return {
+        ...generated,
+        answers: question.options.map((option: string) => ({
+          content: option,
+          isCorrect: correctAnswers.includes(option),
+        })),
+      };
+    }
+  }
+};
+
 /**
  * @desc Create a quiz manually
  * @route POST /api/v1/quizzes
@@ -219,21 +320,19 @@ export const createQuiz = async (req: Request, res: Response) => {
       });
     }
 
-    const quiz = await db.quiz.create({
-      data: {
+    const quiz = await saveQuiz(
+      {
         title,
-        description: description || '',
+        description,
         difficulty: difficulty || 'Medium',
-        questionCount: questions.length,
         timeLimit,
         passingScore: passingScore || 70,
-        questions,
-        attempts: [],
-        userId,
-        subjectId,
-        lessonId: lessonId || null,
+        questions: questions.map(toGeneratedQuestion),
       },
-    });
+      userId,
+      subjectId,
+      lessonId
+    );
 
     return void res.status(201).json({
       success: true,
@@ -293,7 +392,8 @@ export const deleteQuiz = async (req: Request, res: Response) => {
 };
 
 /**
- * @desc Submit a quiz attempt
+ * @desc Submit a quiz attempt in one go. Only for untimed quizzes; timed quizzes are taken in a
+ * session started with POST /api/v1/quizzes/:id/start.
  * @route POST /api/v1/quizzes/:id/attempt
  * @protected
  */
@@ -301,7 +401,7 @@ export const submitQuizAttempt = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
     const { id: quizId } = req.params;
-    const { answers, startedAt } = req.body;
+    const { answers } = req.body;
 
     if (!Array.isArray(answers)) {
       return void res.status(400).json({
@@ -310,12 +410,29 @@ export const submitQuizAttempt = async (req: Request, res: Response) => {
       });
     }
 
-    const attempt = await recordQuizAttempt(
-      quizId,
-      userId,
-      answers,
-      startedAt ? new Date(startedAt) : new Date()
-    );
+    const quiz = await db.quiz.findFirst({
+      where: {
+        id: quizId,
+        userId,
+      },
+      select: { timeLimit: true },
+    });
+
+    if (!quiz) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Quiz not found',
+      });
+    }
+
+    if (quiz.timeLimit) {
+      return void res.status(400).json({
+        success: false,
+        message: 'This quiz is timed. Start it with POST /api/v1/quizzes/:id/start instead.',
+      });
+    }
+
+    const attempt = await recordQuizAttempt(quizId, userId, answers, new Date());
 
     return void res.json({
       success: true,
@@ -331,6 +448,183 @@ export const submitQuizAttempt = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * @desc Start taking a quiz, or resume the session already in progress
+ * @route POST /api/v1/quizzes/:id/start
+ * @protected
+ */
+export const startQuizSessionHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id: quizId } = req.params;
+
+    const quiz = await db.quiz.findFirst({
+      where: {
+        id: quizId,
+        userId,
+      },
+      include: quizQuestionsInclude,
+    });
+
+    if (!quiz) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Quiz not found',
+      });
+    }
+
+    const activeSession = await getActiveQuizSession(quizId, userId);
+    if (activeSession && !isQuizSessionExpired(activeSession)) {
+      return void res.json({
+        success: true,
+        session: formatQuizSession(activeSession, quiz),
+      });
+    }
+
+    // The deadline job may not have run yet
+    if (activeSession) {
+      await finalizeQuizSession(activeSession.id);
+    }
+
+    const session = await startQuizSession(quiz, userId);
+
+    return void res.status(201).json({
+      success: true,
+      session: formatQuizSession(session, quiz),
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Internal Server Error',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc Save answers during a quiz session, replacing earlier answers to the same questions
+ * @route PUT /api/v1/quizzes/:id/sessions/:sessionId/answers
+ * @protected
+ */
+export const saveQuizSessionAnswersHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id: quizId, sessionId } = req.params;
+    const { answers } = req.body as SaveQuizSessionAnswersInput;
+
+    const session = await db.quizSession.findFirst({
+      where: { id: sessionId, quizId, userId },
+    });
+
+    if (!session) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Quiz session not found',
+      });
+    }
+
+    if (session.status !== QuizSessionStatus.ACTIVE) {
+      return void res.status(409).json({
+        success: false,
+        message: 'This quiz session has already ended',
+      });
+    }
+
+    if (isQuizSessionExpired(session)) {
+      const attempt = await finalizeQuizSession(session.id);
+      return void res.status(409).json({
+        success: false,
+        message: 'Time is up. The quiz was submitted with the answers saved before the deadline.',
+        attempt,
+      });
+    }
+
+    const questions = await db.quizQuestion.findMany({
+      where: { quizId },
+      select: { id: true },
+    });
+    const questionIds = new Set(questions.map((question) => question.id));
+    const unknownQuestionIds = answers
+      .map((answer) => answer.questionId)
+      .filter((questionId) => !questionIds.has(questionId));
+
+    if (unknownQuestionIds.length > 0) {
+      return void res.status(400).json({
+        success: false,
+        message: `Questions not in this quiz: ${unknownQuestionIds.join(', ')}`,
+      });
+    }
+
+    const savedAnswers = await saveQuizSessionAnswers(session.id, answers);
+
+    return void res.json({
+      success: true,
+      answers: savedAnswers.map(formatQuizSessionAnswer),
+      remainingSeconds: getRemainingSeconds(session),
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Internal Server Error',
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * @desc Submit a quiz session for scoring. Submitting an ended session returns its attempt.
+ * @route POST /api/v1/quizzes/:id/sessions/:sessionId/submit
+ * @protected
+ */
+export const submitQuizSession = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id: quizId, sessionId } = req.params;
+    const answers = req.body?.answers || [];
+
+    const session = await db.quizSession.findFirst({
+      where: { id: sessionId, quizId, userId },
+      select: { id: true },
+    });
+
+    if (!session) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Quiz session not found',
+      });
+    }
+
+    const attempt = await finalizeQuizSession(session.id, answers);
+
+    if (!attempt) {
+      return void res.status(409).json({
+        success: false,
+        message: 'This quiz session is already being submitted',
+      });
+    }
+
+    const { status } = await db.quizSession.findUniqueOrThrow({
+      where: { id: session.id },
+      select: { status: true },
+    });
+
+    return void res.json({
+      success: true,
+      attempt,
+      expired: status === QuizSessionStatus.EXPIRED,
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Internal Server Error',
+      error: (error as Error).message,
+    });
+  }
+};
+
 /**
  * @desc Get all attempts for a quiz
  * @route GET /api/v1/quizzes/:id/attempts
@@ -346,6 +640,7 @@ export const getQuizAttempts = async (req: Request, res: Response) => {
         id: quizId,
         userId,
       },
+      select: { id: true },
     });
 
     if (!quiz) {
@@ -355,7 +650,13 @@ export const getQuizAttempts = async (req: Request, res: Response) => {
       });
     }
 
-    const attempts = quiz.attempts ? (quiz.attempts as any[]) : [];
+    const attempts = (
+      await db.quizAttempt.findMany({
+        where: { quizId },
+        orderBy: { completedAt: 'asc' },
+        include: quizAttemptAnswersInclude,
+      })
+    ).map(formatQuizAttempt);
 
     return void res.json({
       success: true,
@@ -372,3 +673,66 @@ export const getQuizAttempts = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * @desc Override the grade of an open-ended answer, as a teacher
+ * @route PATCH /api/v1/quizzes/:id/attempts/:attemptId/answers/:questionId
+ * @protected
+ */
+export const overrideQuizAnswerGradeHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id: quizId, attemptId, questionId } = req.params;
+    const { pointsEarned, justification } = req.body as OverrideQuizAnswerGradeInput;
+
+    // Teachers grade the quizzes they created
+    const answer = await db.quizAttemptAnswer.findFirst({
+      where: {
+        attemptId,
+        questionId,
+        attempt: { quizId, quiz: { userId } },
+      },
+      select: { question: { select: { type: true, points: true } } },
+    });
+
+    if (!answer) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Answer not found',
+      });
+    }
+
+    // Other questions are checked against their answer key
+    if (!isOpenEndedQuestion(answer.question)) {
+      return void res.status(409).json({
+        success: false,
+        message: 'Only essay and short-answer grades can be overridden',
+      });
+    }
+
+    const maxPoints = answer.question.points || 1;
+    if (pointsEarned > maxPoints) {
+      return void res.status(400).json({
+        success: false,
+        message: `This question is worth at most ${maxPoints} points`,
+      });
+    }
+
+    const attempt = await overrideQuizAnswerGrade(attemptId, questionId, userId, {
+      pointsEarned,
+      justification,
+    });
+
+    return void res.json({
+      success: true,
+      attempt,
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({
+      success: false,
+      message: 'Internal Server Error',
+      error: (error as Error).message,
+    });
+  }
+};
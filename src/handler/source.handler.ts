@@ -1,69 +1,125 @@
 import { Request, Response } from 'express';
 import db from '../db/db';
-import { DataSourceStatus, DataSourceType } from '@prisma/client';
-import { extractTextFromDocument } from '../services/gemini.service';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
-import { insertEmbeddings, deleteEmbeddingsByDataSource } from '../services/milvus';
+import { DataSource, DataSourceStatus, DataSourceType, Prisma } from '@prisma/client';
+import { deleteEmbeddingsByDataSource, updateEmbeddingsSubject } from '../services/vector.service';
+import {
+  enqueueDataSourceIngestion,
+  hasActiveIngestionJob,
+  INGEST_DATA_SOURCE_JOB,
+  hasIngestibleSource,
+  isDirectContentSource,
+  isIngestionRunning,
+} from '../services/ingestion.service';
+import {
+  assertPublicHttpUrl,
+  getYouTubeThumbnailUrl,
+  isYouTubeUrl,
+} from '../services/web-extraction.service';
+import {
+  enqueueThumbnailGeneration,
+  getDataSourceThumbnailUrl,
+} from '../services/thumbnail.service';
+import placeholderService from '../services/placeholder.service';
+import { getSearchSnippets, searchDataSources } from '../services/material-search.service';
+import {
+  DataSourceEvent,
+  subscribeToDataSourceEvents,
+} from '../services/data-source-events.service';
+import {
+  findDuplicateDataSource,
+  getDataSourceFileUrl,
+  hashFile,
+  replaceCurrentFile,
+} from '../services/data-source-version.service';
+import {
+  getStorage,
+  LocalDiskStorage,
+  SIGNED_URL_TTL_SECONDS,
+  storeUploadedFile,
+} from '../services/storage';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import mime from 'mime-types';
 import path from 'path';
 
+const EVENT_HEARTBEAT_MS = 25000;
+const EVENT_SYNC_INTERVAL_MS = 5000;
+
 /**
- * Process a file asynchronously and update the existing record
+ * Find a tag of the user by name, creating it on first use
  */
+const findOrCreateTag = async (name: string, userId: string) => {
+  const tagName = name.toLowerCase().trim();
+  const tag = await db.tag.findFirst({
+    where: {
+      name: tagName,
+      userId,
+    },
+  });
 
-const processFileAsync = async (
-  file: Express.Multer.File,
-  dataSourceId: string,
-  userId: string,
-  sessionId?: string
-): Promise<void> => {
-  try {
-    const filePath = file.path;
+  return (
+    tag ||
+    db.tag.create({
+      data: {
+        name: tagName,
+        userId,
+      },
+    })
+  );
+};
 
-    const dataSource = await db.dataSource.findUnique({
-      where: { id: dataSourceId },
-      select: { subjectId: true},
-    });
+/**
+ * Link tags (created on first use) to a data source
+ */
+const attachTags = async (dataSourceId: string, userId: string, tags: string | string[]) => {
+  if (!tags) return;
 
-    const extractedText = await extractTextFromDocument(filePath);
-    const textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 2000,
-      chunkOverlap: 200,
-      separators: ['\n\n', '\n', ' ', ''],
-    });
-    const bufferOutput = await textSplitter.createDocuments([extractedText]);
-    const output = bufferOutput.map((chunk, index) => ({
-      pageContent: chunk.pageContent,
-      metadata: { chunk_id: index },
-    }));
+  const tagArray = Array.isArray(tags) ? tags : [tags];
+  for (const tagName of tagArray) {
+    const tag = await findOrCreateTag(tagName, userId);
 
-    console.log(output);
-    await insertEmbeddings(output, userId, {
-      subjectId: dataSource?.subjectId || undefined,
-      dataSourceId,
+    await db.dataSourceTag.create({
+      data: { dataSourceId, tagId: tag.id },
     });
+  }
+};
 
-    await db.dataSource.update({
-      where: { id: dataSourceId },
-      data: {
-        content: extractedText,
-        status: DataSourceStatus.COMPLETED,
-      },
-    });
-  } catch (error) {
-    console.error(`Error processing file ${file.originalname}:`, error);
+/**
+ * Guess the data source type of an uploaded file from its extension
+ */
+const getFileType = (filename: string): DataSourceType => {
+  const ext = path.extname(filename).toLowerCase();
 
-    await db.dataSource.update({
-      where: { id: dataSourceId },
-      data: {
-        content: `Error processing: ${(error as Error).message}`,
-        status: DataSourceStatus.ERROR,
-      },
-    });
+  if (['.pdf'].includes(ext)) return DataSourceType.PDF;
+  if (['.jpg', '.jpeg', '.png', '.gif', '.webp'].includes(ext)) return DataSourceType.IMAGE;
+  if (['.doc', '.docx', '.txt', '.rtf'].includes(ext)) return DataSourceType.DOCS;
+  if (['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.oga', '.flac', '.weba'].includes(ext))
+    return DataSourceType.AUDIO;
+  if (['.mp4', '.mov', '.webm', '.mkv', '.avi', '.m4v'].includes(ext)) return DataSourceType.VIDEO;
+
+  return DataSourceType.TEXT;
+};
 
-    throw error;
+/**
+ * Remove an uploaded temporary file that is not kept, e.g. a duplicate
+ */
+const discardUpload = async (file: Express.Multer.File) => {
+  try {
+    await fs.unlink(file.path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    console.error(`Could not remove discarded upload ${file.path}:`, error);
   }
 };
 
+/**
+ * Remove whatever temporary uploads of a failed request were not moved into storage
+ */
+const discardRequestUploads = async (req: Request) => {
+  const files = Array.isArray(req.files) ? req.files : req.file ? [req.file] : [];
+  await Promise.all(files.map(discardUpload));
+};
+
 /**
  * @desc Create a new data source
  * @route POST /api/v1/data-sources
@@ -79,11 +135,15 @@ export const createDataSource = async (req: Request, res: Response) => {
       source = 'upload',
       sourceUrl,
       content,
+      allowDuplicates,
     } = req.body;
+    // Sent as a multipart form field, so it arrives as a string
+    const skipDuplicates = allowDuplicates !== true && allowDuplicates !== 'true';
 
     if (subjectId) {
       const subject = await db.subject.findUnique({ where: { id: subjectId } });
       if (!subject) {
+        await discardRequestUploads(req);
         return void res.status(404).json({
           success: false,
           message: 'Subject not found',
@@ -91,30 +151,34 @@ export const createDataSource = async (req: Request, res: Response) => {
       }
     }
 
-    const getFileType = (filename: string): DataSourceType => {
-      const ext = path.extname(filename).toLowerCase();
-
-      if (['.pdf'].includes(ext)) return DataSourceType.PDF;
-      if (['.jpg', '.jpeg', '.png', '.gif', '.webp'].includes(ext)) return DataSourceType.IMAGE;
-      if (['.doc', '.docx', '.txt', '.rtf'].includes(ext)) return DataSourceType.DOCS;
-
-      return DataSourceType.TEXT;
-    };
-
-    if (req.files && Array.isArray(req.files)) {
+    if (req.files && Array.isArray(req.files) && req.files.length > 0) {
       const files = req.files as Express.Multer.File[];
       const materials = [];
+      const duplicates = [];
 
       for (const file of files) {
+        const contentHash = await hashFile(file.path);
+        const duplicate = skipDuplicates
+          ? await findDuplicateDataSource(userId, contentHash)
+          : null;
+        if (duplicate) {
+          await discardUpload(file);
+          duplicates.push({ fileName: file.originalname, material: duplicate });
+          continue;
+        }
+
         const name = req.body.name || file.originalname;
         const type = req.body.type || getFileType(file.originalname);
         const fileType = path.extname(file.originalname).replace('.', '');
         const size = file.size;
-        const url = `/uploads/${file.filename}`;
-        const thumbnail = url;
+        const id = crypto.randomUUID();
+        const filePath = await storeUploadedFile(file, `data-sources/${userId}`);
+        const url = getDataSourceFileUrl(id);
+        const thumbnail = getDataSourceThumbnailUrl(id);
 
         const dataSource = await db.dataSource.create({
           data: {
+            id,
             name,
             type: type as DataSourceType,
             fileType,
@@ -126,59 +190,60 @@ export const createDataSource = async (req: Request, res: Response) => {
             source,
             sourceUrl,
             content: content || null,
+            filePath,
+            contentHash,
             status: DataSourceStatus.PROCESSING,
             userId,
           },
         });
 
-        if (tags) {
-          const tagArray = Array.isArray(tags) ? tags : [tags];
-          for (const tagName of tagArray) {
-            let tag = await db.tag.findFirst({
-              where: {
-                name: tagName.toLowerCase().trim(),
-                userId,
-              },
-            });
-
-            if (!tag) {
-              tag = await db.tag.create({
-                data: {
-                  name: tagName.toLowerCase().trim(),
-                  userId,
-                },
-              });
-            }
-
-            await db.dataSourceTag.create({
-              data: { dataSourceId: dataSource.id, tagId: tag.id },
-            });
-          }
-        }
+        await attachTags(dataSource.id, userId, tags);
 
-        processFileAsync(file, dataSource.id, userId).catch((error) => {
-          console.error(`Background processing error for ${file.originalname}:`, error);
-        });
+        await enqueueDataSourceIngestion(dataSource.id);
+        await enqueueThumbnailGeneration(dataSource.id);
 
         materials.push(dataSource);
       }
 
+      if (materials.length === 0) {
+        return void res.status(409).json({
+          success: false,
+          message: 'These files have already been uploaded',
+          duplicates,
+        });
+      }
+
       return void res.status(201).json({
         success: true,
         message: `Successfully uploaded ${materials.length} files`,
         materials,
+        duplicates,
       });
     } else if (req.file) {
       const file = req.file;
+      const contentHash = await hashFile(file.path);
+      const duplicate = skipDuplicates ? await findDuplicateDataSource(userId, contentHash) : null;
+      if (duplicate) {
+        await discardUpload(file);
+        return void res.status(409).json({
+          success: false,
+          message: 'This file has already been uploaded',
+          material: duplicate,
+        });
+      }
+
       const name = req.body.name || file.originalname;
       const type = req.body.type || getFileType(file.originalname);
       const fileType = path.extname(file.originalname).replace('.', '');
       const size = file.size;
-      const url = `/uploads/${file.filename}`;
-      const thumbnail = url;
+      const id = crypto.randomUUID();
+      const filePath = await storeUploadedFile(file, `data-sources/${userId}`);
+      const url = getDataSourceFileUrl(id);
+      const thumbnail = getDataSourceThumbnailUrl(id);
 
       const dataSource = await db.dataSource.create({
         data: {
+          id,
           name,
           type: type as DataSourceType,
           fileType,
@@ -190,96 +255,106 @@ export const createDataSource = async (req: Request, res: Response) => {
           source,
           sourceUrl,
           content: content || null,
+          filePath,
+          contentHash,
           status: DataSourceStatus.PROCESSING,
           userId,
         },
       });
 
-      if (tags) {
-        const tagArray = Array.isArray(tags) ? tags : [tags];
-        for (const tagName of tagArray) {
-          let tag = await db.tag.findFirst({
-            where: {
-              name: tagName.toLowerCase().trim(),
-              userId,
-            },
-          });
-
-          if (!tag) {
-            tag = await db.tag.create({
-              data: {
-                name: tagName.toLowerCase().trim(),
-                userId,
-              },
-            });
-          }
-
-          await db.dataSourceTag.create({
-            data: { dataSourceId: dataSource.id, tagId: tag.id },
-          });
-        }
-      }
+      await attachTags(dataSource.id, userId, tags);
 
-      console.log('Processing file:', file.originalname);
-      processFileAsync(file, dataSource.id, userId).catch((error) => {
-        console.error(`Background processing error for ${file.originalname}:`, error);
-      });
+      console.log('Queueing file for processing:', file.originalname);
+      await enqueueDataSourceIngestion(dataSource.id);
+      await enqueueThumbnailGeneration(dataSource.id);
 
       return void res.status(201).json({
         success: true,
         material: dataSource,
       });
     } else if (content) {
-      if (!req.body.name || !req.body.type) {
+      if (!req.body.name) {
         return void res.status(400).json({
           success: false,
-          message: 'Name and type are required when providing direct content',
+          message: 'Name is required when providing direct content',
         });
       }
 
+      const id = crypto.randomUUID();
       const dataSource = await db.dataSource.create({
         data: {
+          id,
           name: req.body.name,
-          type: req.body.type as DataSourceType,
+          type: (req.body.type as DataSourceType) || DataSourceType.TEXT,
           fileType: '',
-          size: 0,
+          size: Buffer.byteLength(content),
           subjectId: subjectId || null,
           description,
-          thumbnail: null,
+          thumbnail: getDataSourceThumbnailUrl(id),
           url: null,
           source,
           sourceUrl,
           content,
-          status: DataSourceStatus.READY,
+          status: DataSourceStatus.PROCESSING,
           userId,
         },
       });
 
-      if (tags) {
-        const tagArray = Array.isArray(tags) ? tags : [tags];
-        for (const tagName of tagArray) {
-          let tag = await db.tag.findFirst({
-            where: {
-              name: tagName.toLowerCase().trim(),
-              userId,
-            },
-          });
-
-          if (!tag) {
-            tag = await db.tag.create({
-              data: {
-                name: tagName.toLowerCase().trim(),
-                userId,
-              },
-            });
-          }
+      await attachTags(dataSource.id, userId, tags);
 
-          await db.dataSourceTag.create({
-            data: { dataSourceId: dataSource.id, tagId: tag.id },
-          });
-        }
+      // Pasted notes are chunked and embedded like uploads so the tutor can search them
+      await enqueueDataSourceIngestion(dataSource.id);
+
+      return void res.status(201).json({
+        success: true,
+        material: dataSource,
+      });
+    } else if (sourceUrl) {
+      try {
+        await assertPublicHttpUrl(sourceUrl);
+      } catch (error) {
+        return void res.status(400).json({
+          success: false,
+          message: (error as Error).message,
+        });
+      }
+
+      const type =
+        (req.body.type as DataSourceType) ||
+        (isYouTubeUrl(sourceUrl) ? DataSourceType.YOUTUBE : DataSourceType.WEBSITE);
+      if (type !== DataSourceType.WEBSITE && type !== DataSourceType.YOUTUBE) {
+        return void res.status(400).json({
+          success: false,
+          message: 'Only WEBSITE and YOUTUBE materials can be imported from a URL',
+        });
       }
 
+      const id = crypto.randomUUID();
+      const dataSource = await db.dataSource.create({
+        data: {
+          id,
+          name: req.body.name || sourceUrl,
+          type,
+          fileType: type === DataSourceType.YOUTUBE ? 'youtube' : 'html',
+          size: 0,
+          subjectId: subjectId || null,
+          description,
+          thumbnail:
+            (type === DataSourceType.YOUTUBE && getYouTubeThumbnailUrl(sourceUrl)) ||
+            getDataSourceThumbnailUrl(id),
+          url: sourceUrl,
+          source: type === DataSourceType.YOUTUBE ? 'youtube' : 'website',
+          sourceUrl,
+          status: DataSourceStatus.PROCESSING,
+          userId,
+        },
+      });
+
+      await attachTags(dataSource.id, userId, tags);
+
+      console.log('Queueing URL for processing:', sourceUrl);
+      await enqueueDataSourceIngestion(dataSource.id);
+
       return void res.status(201).json({
         success: true,
         material: dataSource,
@@ -287,11 +362,12 @@ export const createDataSource = async (req: Request, res: Response) => {
     } else {
       return void res.status(400).json({
         success: false,
-        message: 'Either a file or content must be provided',
+        message: 'Either a file, content or a source URL must be provided',
       });
     }
   } catch (error) {
     console.error(error);
+    await discardRequestUploads(req);
     return void res.status(500).json({
       success: false,
       message: 'Internal Server Error',
@@ -300,70 +376,241 @@ export const createDataSource = async (req: Request, res: Response) => {
   }
 };
 
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+type MaterialSort = 'relevance' | 'uploadDate' | 'name' | 'size';
+
+/**
+ * Position after the last material of a page: the sort value and ID of that material
+ */
+interface MaterialCursor {
+  sort: MaterialSort;
+  order: 'asc' | 'desc';
+  value: string | number;
+  id: string;
+}
+
+const encodeCursor = (cursor: MaterialCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Read a cursor sent back by the client. Cursors are not signed, so the value must have the
+ * type its sort field has before it is used in a query.
+ */
+const decodeCursor = (cursor: string): MaterialCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!decoded || typeof decoded.id !== 'string') return null;
+
+    const { sort, value } = decoded;
+    const isValid =
+      sort === 'relevance' || sort === 'size'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : sort === 'uploadDate'
+          ? typeof value === 'string' && !Number.isNaN(Date.parse(value))
+          : sort === 'name' && typeof value === 'string';
+    return isValid ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Query parameters that may be repeated (?type=PDF&type=VIDEO) or comma-separated (?type=PDF,VIDEO)
+ */
+const parseListParam = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .reduce((items: string[], item) => items.concat(String(item).split(',')), [])
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 /**
- * @desc Get all data sources/materials
+ * @desc Get all data sources, optionally searched, filtered, sorted and paginated
  * @route GET /api/v1/data-sources
  * @protected
  */
 export const getAllDataSources = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
-    const { subjectId, tags, type, status } = req.query;
+    const { subjectId, uploadedAfter, uploadedBefore } = req.query;
+    const search = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const types = parseListParam(req.query.type);
+    const statuses = parseListParam(req.query.status);
+    const tags = parseListParam(req.query.tags).map((tag) => tag.toLowerCase());
+
+    const sort = (req.query.sort as MaterialSort) || (search ? 'relevance' : 'uploadDate');
+    const order = (req.query.order as 'asc' | 'desc') || (sort === 'name' ? 'asc' : 'desc');
+    // Without limit or cursor every match is returned, as before pagination existed
+    const paginate = req.query.limit !== undefined || req.query.cursor !== undefined;
+    const limit = Math.min(Number(req.query.limit) || 50, 100);
+
+    if (sort === 'relevance' && !search) {
+      return void res.status(400).json({
+        success: false,
+        message: 'Sorting by relevance requires a search query',
+      });
+    }
+
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor as string) : null;
+    if (req.query.cursor && (!cursor || cursor.sort !== sort || cursor.order !== order)) {
+      return void res.status(400).json({
+        success: false,
+        message: 'Invalid cursor for this sort order',
+      });
+    }
+
+    const whereClause: Prisma.DataSourceWhereInput = { userId };
 
-    const whereClause: any = { userId };
+    if (subjectId === 'none') whereClause.subjectId = null;
+    else if (subjectId) whereClause.subjectId = subjectId as string;
+    if (types.length > 0) whereClause.type = { in: types as DataSourceType[] };
+    if (statuses.length > 0) whereClause.status = { in: statuses as DataSourceStatus[] };
 
-    if (subjectId) whereClause.subjectId = subjectId as string;
-    if (type) whereClause.type = type as string;
-    if (status) whereClause.status = status as string;
+    if (uploadedAfter || uploadedBefore) {
+      const uploadDate: Prisma.DateTimeFilter = {};
+      if (uploadedAfter) uploadDate.gte = new Date(uploadedAfter as string);
+      if (uploadedBefore && DATE_ONLY.test(uploadedBefore as string)) {
+        // A date without a time includes that whole day
+        uploadDate.lt = new Date(Date.parse(uploadedBefore as string) + 24 * 60 * 60 * 1000);
+      } else if (uploadedBefore) {
+        uploadDate.lte = new Date(uploadedBefore as string);
+      }
+      whereClause.uploadDate = uploadDate;
+    }
 
-    if (tags) {
+    if (tags.length > 0) {
       whereClause.tags = {
         some: {
           tag: {
             name: {
-              in: Array.isArray(tags) ? tags : [tags as string],
+              in: tags,
             },
           },
         },
       };
     }
 
-    const dataSources = await db.dataSource.findMany({
-      where: whereClause,
-      include: {
-        subject: true,
-        tags: {
-          include: {
-            tag: true,
+    const ranks = search ? await searchDataSources(userId, search) : null;
+    if (ranks) {
+      whereClause.id = { in: Array.from(ranks.keys()) };
+    }
+
+    const total = await db.dataSource.count({ where: whereClause });
+
+    let pageIds: string[];
+    let nextCursor: string | null = null;
+
+    if (sort === 'relevance' && ranks) {
+      // Ranks only exist in memory, so relevance order is applied here rather than in SQL
+      const matching = await db.dataSource.findMany({ where: whereClause, select: { id: true } });
+      const ranked = matching
+        .map(({ id }) => ({ id, rank: ranks.get(id) || 0 }))
+        .sort((a, b) => {
+          const byRank = a.rank - b.rank || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+          return order === 'desc' ? -byRank : byRank;
+        });
+
+      let startIndex = 0;
+      if (cursor) {
+        startIndex = ranked.findIndex((item) => {
+          const rank = cursor.value as number;
+          if (order === 'desc') {
+            return item.rank < rank || (item.rank === rank && item.id < cursor.id);
+          }
+          return item.rank > rank || (item.rank === rank && item.id > cursor.id);
+        });
+        if (startIndex === -1) startIndex = ranked.length;
+      }
+
+      const page = paginate ? ranked.slice(startIndex, startIndex + limit) : ranked;
+      pageIds = page.map((item) => item.id);
+
+      const last = page[page.length - 1];
+      if (paginate && last && startIndex + limit < ranked.length) {
+        nextCursor = encodeCursor({ sort, order, value: last.rank, id: last.id });
+      }
+    } else {
+      const field = sort as Exclude<MaterialSort, 'relevance'>;
+      const pageWhere: Prisma.DataSourceWhereInput = { ...whereClause };
+
+      if (cursor) {
+        const value = field === 'uploadDate' ? new Date(cursor.value) : cursor.value;
+        const comparison = order === 'desc' ? 'lt' : 'gt';
+        pageWhere.AND = {
+          OR: [
+            { [field]: { [comparison]: value } },
+            { [field]: value, id: { [comparison]: cursor.id } },
+          ],
+        };
+      }
+
+      const rows = await db.dataSource.findMany({
+        where: pageWhere,
+        select: { id: true, uploadDate: true, name: true, size: true },
+        orderBy: [{ [field]: order }, { id: order }],
+        ...(paginate ? { take: limit + 1 } : {}),
+      });
+
+      const page = paginate ? rows.slice(0, limit) : rows;
+      pageIds = page.map((row) => row.id);
+
+      const last = page[page.length - 1];
+      if (paginate && rows.length > limit) {
+        const value = field === 'uploadDate' ? last.uploadDate.toISOString() : last[field];
+        nextCursor = encodeCursor({ sort, order, value, id: last.id });
+      }
+    }
+
+    const [dataSources, snippets] = await Promise.all([
+      db.dataSource.findMany({
+        where: { id: { in: pageIds } },
+        include: {
+          subject: true,
+          tags: {
+            include: {
+              tag: true,
+            },
           },
         },
-      },
-      orderBy: { uploadDate: 'desc' },
-    });
+      }),
+      search ? getSearchSnippets(pageIds, search) : new Map<string, string>(),
+    ]);
+    const dataSourcesById = new Map(dataSources.map((dataSource) => [dataSource.id, dataSource]));
 
     return void res.json({
       success: true,
-      materials: dataSources.map((dataSource) => ({
-        id: dataSource.id,
-        name: dataSource.name,
-        type: dataSource.type,
-        fileType: dataSource.fileType,
-        size: dataSource.size,
-        uploadDate: dataSource.uploadDate,
-        subjectId: dataSource.subjectId,
-        subjectName: dataSource.subject?.name,
-        subjectColor: dataSource.subject?.color,
-        description: dataSource.description,
-        tags: dataSource.tags.map((dt) => dt.tag.name),
-        thumbnail: dataSource.thumbnail,
-        status: dataSource.status,
-        progress: dataSource.progress,
-        url: dataSource.url,
-        source: dataSource.source,
-        sourceUrl: dataSource.sourceUrl,
-        contentPreview: dataSource.content ? dataSource.content.substring(0, 150) + '...' : null,
-        hasContent: !!dataSource.content,
-      })),
+      total,
+      nextCursor,
+      materials: pageIds
+        .map((id) => dataSourcesById.get(id))
+        .filter((dataSource): dataSource is (typeof dataSources)[number] => !!dataSource)
+        .map((dataSource) => ({
+          id: dataSource.id,
+          name: dataSource.name,
+          type: dataSource.type,
+          fileType: dataSource.fileType,
+          size: dataSource.size,
+          uploadDate: dataSource.uploadDate,
+          subjectId: dataSource.subjectId,
+          subjectName: dataSource.subject?.name,
+          subjectColor: dataSource.subject?.color,
+          description: dataSource.description,
+          tags: dataSource.tags.map((dt) => dt.tag.name),
+          thumbnail: dataSource.thumbnail,
+          status: dataSource.status,
+          progress: dataSource.progress,
+          url: dataSource.url,
+          source: dataSource.source,
+          sourceUrl: dataSource.sourceUrl,
+          contentPreview: dataSource.content ? dataSource.content.substring(0, 150) + '...' : null,
+          hasContent: !!dataSource.content,
+          ...(search
+            ? {
+                relevance: ranks?.get(dataSource.id) || 0,
+                snippet: snippets.get(dataSource.id) || null,
+              }
+            : {}),
+        })),
     });
   } catch (error) {
     console.error(error);
@@ -393,6 +640,19 @@ export const getDataSourceById = async (req: Request, res: Response) => {
             tag: true,
           },
         },
+        jobs: {
+          where: { type: INGEST_DATA_SOURCE_JOB },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: {
+            status: true,
+            attempts: true,
+            maxAttempts: true,
+            runAt: true,
+            errors: true,
+            updatedAt: true,
+          },
+        },
       },
     });
 
@@ -403,11 +663,14 @@ export const getDataSourceById = async (req: Request, res: Response) => {
       });
     }
 
+    const { jobs, ...material } = dataSource;
+
     return void res.json({
       success: true,
       material: {
-        ...dataSource,
+        ...material,
         tags: dataSource.tags.map((dt) => dt.tag.name),
+        processing: jobs[0] || null,
       },
     });
   } catch (error) {
@@ -417,20 +680,21 @@ export const getDataSourceById = async (req: Request, res: Response) => {
 };
 
 /**
- * @desc Delete data source
- * @route DELETE /api/v1/data-sources/:id
+ * @desc Get the chunks a data source was split into for embedding, in document order
+ * @route GET /api/v1/data-sources/:id/chunks
  * @protected
  */
-export const deleteDataSource = async (req: Request, res: Response) => {
+export const getDataSourceChunks = async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
     const userId = (req as any).userId;
+    const { id } = req.params;
+    const page = Number(req.query.page) || 1;
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const { embeddingStatus } = req.query;
 
     const dataSource = await db.dataSource.findFirst({
-      where: {
-        id,
-        userId,
-      },
+      where: { id, userId },
+      select: { id: true },
     });
 
     if (!dataSource) {
@@ -440,20 +704,1098 @@ export const deleteDataSource = async (req: Request, res: Response) => {
       });
     }
 
-    await db.dataSourceTag.deleteMany({
-      where: { dataSourceId: id },
+    const whereClause: any = { dataSourceId: id };
+    if (embeddingStatus) whereClause.embeddingStatus = embeddingStatus as string;
+
+    const [chunks, total] = await Promise.all([
+      db.dataSourceChunk.findMany({
+        where: whereClause,
+        orderBy: { order: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.dataSourceChunk.count({ where: whereClause }),
+    ]);
+
+    return void res.json({
+      success: true,
+      chunks,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
     });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
 
-    await deleteEmbeddingsByDataSource(id);
+/**
+ * @desc Get the timestamped transcript of an audio or video data source
+ * @route GET /api/v1/data-sources/:id/transcript
+ * @protected
+ */
+export const getDataSourceTranscript = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.params;
+    const page = Number(req.query.page) || 1;
+    const limit = Math.min(Number(req.query.limit) || 50, 100);
 
-    await db.dataSource.delete({
-      where: { id },
+    const dataSource = await db.dataSource.findFirst({
+      where: { id, userId },
+      select: { id: true },
     });
 
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    const [segments, total] = await Promise.all([
+      db.transcriptSegment.findMany({
+        where: { dataSourceId: id },
+        orderBy: { order: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.transcriptSegment.count({ where: { dataSourceId: id } }),
+    ]);
+
     return void res.json({
       success: true,
-      message: 'Material deleted successfully',
+      segments,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * Save a data source's new subject and lesson, and move its embeddings along so subject-scoped
+ * search keeps finding it. Returns false, with the change rolled back, when the vector store
+ * could not be updated.
+ */
+const moveDataSource = async (
+  dataSource: DataSource,
+  subjectId: string | null,
+  lessonId: string | null
+): Promise<boolean> => {
+  await db.dataSource.update({
+    where: { id: dataSource.id },
+    data: { subjectId, lessonId },
+  });
+  if (subjectId === dataSource.subjectId) return true;
+
+  try {
+    await updateEmbeddingsSubject(dataSource.id, subjectId);
+    return true;
+  } catch (error) {
+    await db.dataSource.update({
+      where: { id: dataSource.id },
+      data: { subjectId: dataSource.subjectId, lessonId: dataSource.lessonId },
+    });
+    return false;
+  }
+};
+
+/**
+ * Replace the tags of a data source, creating tags on first use
+ */
+const replaceTags = async (dataSourceId: string, userId: string, tagNames: string[]) => {
+  const names = Array.from(new Set(tagNames.map((name) => name.toLowerCase().trim())));
+  const tags = await Promise.all(names.map((name) => findOrCreateTag(name, userId)));
+
+  await db.$transaction([
+    db.dataSourceTag.deleteMany({ where: { dataSourceId } }),
+    db.dataSourceTag.createMany({
+      data: tags.map((tag) => ({ dataSourceId, tagId: tag.id })),
+    }),
+  ]);
+};
+
+/**
+ * @desc Update a data source's details, subject, lesson or tags. Editing the content of a
+ * note re-indexes it; moving to another subject updates its embeddings.
+ * @route PATCH /api/v1/data-sources/:id
+ * @protected
+ */
+export const updateDataSource = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+    const { name, description, content, subjectId, lessonId, tags } = req.body;
+
+    const dataSource = await db.dataSource.findFirst({
+      where: {
+        id,
+        userId,
+      },
     });
+
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    const contentChanged = content !== undefined && content !== dataSource.content;
+    if (contentChanged) {
+      if (!isDirectContentSource(dataSource)) {
+        return void res.status(400).json({
+          success: false,
+          message: 'Only the content of notes can be edited; reprocess uploads and URLs instead',
+        });
+      }
+    }
+
+    let targetSubjectId: string | null = subjectId === undefined ? dataSource.subjectId : subjectId;
+    let targetLessonId: string | null = lessonId === undefined ? dataSource.lessonId : lessonId;
+
+    if (lessonId) {
+      const lesson = await db.lesson.findFirst({
+        where: {
+          id: lessonId,
+          subject: { userId },
+        },
+        select: { subjectId: true },
+      });
+
+      if (!lesson) {
+        return void res.status(404).json({
+          success: false,
+          message: 'Lesson not found',
+        });
+      }
+
+      // Assigning a lesson alone moves the material into the lesson's subject
+      if (subjectId === undefined) {
+        targetSubjectId = lesson.subjectId;
+      } else if (subjectId !== lesson.subjectId) {
+        return void res.status(400).json({
+          success: false,
+          message: 'The lesson belongs to a different subject',
+        });
+      }
+    }
+
+    if (subjectId) {
+      const subject = await db.subject.findFirst({
+        where: {
+          id: subjectId,
+          userId,
+        },
+      });
+
+      if (!subject) {
+        return void res.status(404).json({
+          success: false,
+          message: 'Subject not found',
+        });
+      }
+    }
+
+    // Lessons belong to a subject, so a material changing subject leaves its lesson
+    const subjectChanged = targetSubjectId !== dataSource.subjectId;
+    if (subjectChanged && lessonId === undefined) {
+      targetLessonId = null;
+    }
+
+    // Ingestion reads the text and copies the subject into the embeddings it writes
+    if ((contentChanged || subjectChanged) && (await hasActiveIngestionJob(id))) {
+      return void res.status(409).json({
+        success: false,
+        message: 'Material is still being processed, try again shortly',
+      });
+    }
+
+    if (subjectChanged || targetLessonId !== dataSource.lessonId) {
+      const moved = await moveDataSource(dataSource, targetSubjectId, targetLessonId);
+      if (!moved) {
+        return void res.status(503).json({
+          success: false,
+          message: 'Could not update the search index, the material was not moved',
+        });
+      }
+    }
+
+    await db.dataSource.update({
+      where: { id },
+      data: {
+        name,
+        description,
+        ...(contentChanged ? { content, size: Buffer.byteLength(content) } : {}),
+      },
+    });
+
+    if (tags !== undefined) {
+      await replaceTags(id, userId, tags);
+    }
+
+    if (contentChanged) {
+      await enqueueDataSourceIngestion(id);
+    }
+
+    const material = await db.dataSource.findUniqueOrThrow({
+      where: { id },
+      include: {
+        tags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+    });
+
+    return void res.json({
+      success: true,
+      material: {
+        ...material,
+        tags: material.tags.map((dt) => dt.tag.name),
+      },
+      reindexing: contentChanged,
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Replace the file of an uploaded data source with a new version and re-index it.
+ * The previous file stays available as an older version.
+ * @route PUT /api/v1/data-sources/:id/file
+ * @protected
+ */
+export const replaceDataSourceFile = async (req: Request, res: Response) => {
+  const file = req.file;
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+
+    if (!file) {
+      return void res.status(400).json({
+        success: false,
+        message: 'A file must be uploaded',
+      });
+    }
+
+    const dataSource = await db.dataSource.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!dataSource) {
+      await discardUpload(file);
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    if (!dataSource.filePath) {
+      await discardUpload(file);
+      return void res.status(400).json({
+        success: false,
+        message: 'Only uploaded materials can be replaced with a new file',
+      });
+    }
+
+    if (await hasActiveIngestionJob(id)) {
+      await discardUpload(file);
+      return void res.status(409).json({
+        success: false,
+        message: 'Material is still being processed, try again shortly',
+      });
+    }
+
+    const contentHash = await hashFile(file.path);
+    if (contentHash === dataSource.contentHash) {
+      await discardUpload(file);
+      return void res.status(409).json({
+        success: false,
+        message: 'The file is identical to the current version',
+      });
+    }
+
+    const type = (req.body.type as DataSourceType) || getFileType(file.originalname);
+    const key = await storeUploadedFile(file, `data-sources/${userId}`);
+    const updated = await replaceCurrentFile(
+      id,
+      { key, originalname: file.originalname, size: file.size },
+      contentHash,
+      type
+    );
+    await enqueueDataSourceIngestion(id);
+    await enqueueThumbnailGeneration(id);
+
+    return void res.json({
+      success: true,
+      message: `Material updated to version ${updated.version} and queued for re-indexing`,
+      material: { ...updated, status: DataSourceStatus.PROCESSING, progress: 0 },
+    });
+  } catch (error) {
+    console.error(error);
+    if (file) await discardUpload(file);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc List the versions of a data source, newest (current) first
+ * @route GET /api/v1/data-sources/:id/versions
+ * @protected
+ */
+export const getDataSourceVersions = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+
+    const dataSource = await db.dataSource.findFirst({
+      where: { id, userId },
+      select: {
+        version: true,
+        name: true,
+        fileType: true,
+        size: true,
+        url: true,
+        contentHash: true,
+        uploadDate: true,
+        versions: {
+          orderBy: { version: 'desc' },
+          select: {
+            version: true,
+            name: true,
+            fileType: true,
+            size: true,
+            url: true,
+            contentHash: true,
+            uploadedAt: true,
+            replacedAt: true,
+          },
+        },
+      },
+    });
+
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    const { versions, uploadDate, ...current } = dataSource;
+
+    return void res.json({
+      success: true,
+      currentVersion: current.version,
+      versions: [
+        { ...current, uploadedAt: uploadDate, replacedAt: null, current: true },
+        ...versions.map((version) => ({ ...version, current: false })),
+      ],
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Get one version of a data source, including the text extracted from it
+ * @route GET /api/v1/data-sources/:id/versions/:version
+ * @protected
+ */
+export const getDataSourceVersion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const versionNumber = Number(req.params.version);
+    const userId = (req as any).userId;
+
+    const dataSource = await db.dataSource.findFirst({
+      where: { id, userId },
+      select: {
+        version: true,
+        name: true,
+        fileType: true,
+        size: true,
+        url: true,
+        contentHash: true,
+        content: true,
+        uploadDate: true,
+      },
+    });
+
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    if (dataSource.version === versionNumber) {
+      const { uploadDate, ...current } = dataSource;
+      return void res.json({
+        success: true,
+        version: { ...current, uploadedAt: uploadDate, replacedAt: null, current: true },
+      });
+    }
+
+    const version = await db.dataSourceVersion.findUnique({
+      where: { dataSourceId_version: { dataSourceId: id, version: versionNumber } },
+      select: {
+        version: true,
+        name: true,
+        fileType: true,
+        size: true,
+        url: true,
+        contentHash: true,
+        content: true,
+        uploadedAt: true,
+        replacedAt: true,
+      },
+    });
+
+    if (!version) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Version not found',
+      });
+    }
+
+    return void res.json({
+      success: true,
+      version: { ...version, current: false },
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * Storage key and download name of a data source's current file, or of an earlier version
+ */
+const findStoredFile = async (
+  dataSourceId: string,
+  userId: string,
+  version?: number
+): Promise<{ key: string; downloadName: string } | null> => {
+  const dataSource = await db.dataSource.findFirst({
+    where: { id: dataSourceId, userId },
+    select: { name: true, fileType: true, filePath: true, version: true },
+  });
+  if (!dataSource) return null;
+
+  const file =
+    version && version !== dataSource.version
+      ? await db.dataSourceVersion.findUnique({
+          where: { dataSourceId_version: { dataSourceId, version } },
+          select: { name: true, fileType: true, filePath: true },
+        })
+      : dataSource;
+  if (!file?.filePath) return null;
+
+  const hasExtension = path.extname(file.name) !== '';
+  return {
+    key: file.filePath,
+    downloadName: hasExtension || !file.fileType ? file.name : `${file.name}.${file.fileType}`,
+  };
+};
+
+/**
+ * Stream a stored file to the response
+ */
+const sendStoredFile = async (
+  res: Response,
+  key: string,
+  downloadName: string,
+  asAttachment: boolean
+) => {
+  let stream;
+  try {
+    stream = await getStorage().getStream(key);
+  } catch (error) {
+    console.error(`Could not read stored file ${key}:`, error);
+    return void res.status(404).json({
+      success: false,
+      message: 'File not found in storage',
+    });
+  }
+
+  if (asAttachment) {
+    res.attachment(downloadName);
+  } else {
+    res.type(mime.lookup(downloadName) || mime.lookup(key) || 'application/octet-stream');
+  }
+
+  stream.on('error', (error) => {
+    console.error(`Error streaming stored file ${key}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
+
+/**
+ * Best-effort removal of stored files that are no longer referenced
+ */
+const deleteStoredFiles = async (keys: (string | null)[]) => {
+  for (const key of keys) {
+    if (!key) continue;
+    try {
+      await getStorage().delete(key);
+    } catch (error) {
+      console.error(`Could not delete stored file ${key}:`, error);
+    }
+  }
+};
+
+/**
+ * @desc Download the file of a data source (or of an earlier version with ?version=)
+ * @route GET /api/v1/data-sources/:id/file
+ * @protected
+ */
+export const getDataSourceFile = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+    const version = req.query.version ? Number(req.query.version) : undefined;
+
+    const file = await findStoredFile(id, userId, version);
+    if (!file) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material or file not found',
+      });
+    }
+
+    await sendStoredFile(res, file.key, file.downloadName, req.query.download === 'true');
+  } catch (error) {
+    console.error(error);
+    if (res.headersSent) return void res.end();
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Get a short-lived signed URL that downloads the file of a data source without
+ * authentication, e.g. for <a href> or media players
+ * @route GET /api/v1/data-sources/:id/file-url
+ * @protected
+ */
+export const getDataSourceSignedUrl = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+    const version = req.query.version ? Number(req.query.version) : undefined;
+
+    const file = await findStoredFile(id, userId, version);
+    if (!file) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material or file not found',
+      });
+    }
+
+    const url = await getStorage().getSignedUrl(file.key, {
+      expiresInSeconds: SIGNED_URL_TTL_SECONDS,
+      downloadName: file.downloadName,
+    });
+
+    return void res.json({
+      success: true,
+      url,
+      expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Download a file through a signed URL issued by the local disk storage backend
+ * @route GET /api/v1/files/download
+ * @public (the signature authorises the request)
+ */
+export const downloadSignedFile = async (req: Request, res: Response) => {
+  try {
+    const storage = getStorage();
+    const { key, expires, name, signature } = req.query as Record<string, string | undefined>;
+
+    if (
+      !(storage instanceof LocalDiskStorage) ||
+      !key ||
+      !name ||
+      !signature ||
+      !storage.verifySignedUrl(key, Number(expires), name, signature)
+    ) {
+      return void res.status(403).json({
+        success: false,
+        message: 'Invalid or expired download link',
+      });
+    }
+
+    await sendStoredFile(res, key, name, true);
+  } catch (error) {
+    console.error(error);
+    if (res.headersSent) return void res.end();
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Get the thumbnail of a data source: the generated preview image, the original of
+ * images still waiting for one, or an icon for the material type
+ * @route GET /api/v1/data-sources/:id/thumbnail
+ * @protected
+ */
+export const getDataSourceThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+
+    const dataSource = await db.dataSource.findFirst({
+      where: { id, userId },
+      select: { name: true, type: true, fileType: true, filePath: true, thumbnailPath: true },
+    });
+
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    // Regenerated thumbnails keep the same URL, so only cache them briefly
+    res.setHeader('Cache-Control', 'private, max-age=300');
+
+    const previewKey =
+      dataSource.thumbnailPath ||
+      (dataSource.type === DataSourceType.IMAGE ? dataSource.filePath : null);
+    if (previewKey) {
+      await sendStoredFile(res, previewKey, path.basename(previewKey), false);
+      return;
+    }
+
+    const svg = placeholderService.generateFileIcon({
+      type: dataSource.type,
+      label: dataSource.fileType || dataSource.type,
+    });
+    res.setHeader('Content-Type', 'image/svg+xml');
+    return void res.send(svg);
+  } catch (error) {
+    console.error(error);
+    if (res.headersSent) return void res.end();
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * Delete a data source along with its tags, embeddings and stored files
+ */
+const removeDataSource = async (dataSource: DataSource) => {
+  const versions = await db.dataSourceVersion.findMany({
+    where: { dataSourceId: dataSource.id },
+    select: { filePath: true },
+  });
+
+  await db.dataSourceTag.deleteMany({
+    where: { dataSourceId: dataSource.id },
+  });
+
+  await deleteEmbeddingsByDataSource(dataSource.id);
+
+  await db.dataSource.delete({
+    where: { id: dataSource.id },
+  });
+
+  await deleteStoredFiles([
+    dataSource.filePath,
+    dataSource.thumbnailPath,
+    ...versions.map((version) => version.filePath),
+  ]);
+};
+
+/**
+ * @desc Delete data source
+ * @route DELETE /api/v1/data-sources/:id
+ * @protected
+ */
+export const deleteDataSource = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+
+    const dataSource = await db.dataSource.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    // The worker would keep writing embeddings for the deleted material
+    if (await isIngestionRunning(id)) {
+      return void res.status(409).json({
+        success: false,
+        message: 'Material is still being processed, try again shortly',
+      });
+    }
+
+    await removeDataSource(dataSource);
+
+    return void res.json({
+      success: true,
+      message: 'Material deleted successfully',
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * Queue re-extraction and embedding of a data source, and a fresh thumbnail for uploads
+ */
+const queueReprocessing = async (dataSource: DataSource) => {
+  const job = await enqueueDataSourceIngestion(dataSource.id);
+  if (dataSource.filePath) {
+    await enqueueThumbnailGeneration(dataSource.id);
+  }
+  return job;
+};
+
+/**
+ * @desc Re-run extraction and embedding for a data source
+ * @route POST /api/v1/data-sources/:id/reprocess
+ * @protected
+ */
+export const reprocessDataSource = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+
+    const dataSource = await db.dataSource.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    if (!dataSource) {
+      return void res.status(404).json({
+        success: false,
+        message: 'Material not found',
+      });
+    }
+
+    if (!hasIngestibleSource(dataSource)) {
+      return void res.status(400).json({
+        success: false,
+        message: 'Material has no uploaded file, URL or content to reprocess',
+      });
+    }
+
+    if (await hasActiveIngestionJob(id)) {
+      return void res.status(409).json({
+        success: false,
+        message: 'Material is already being processed',
+      });
+    }
+
+    const job = await queueReprocessing(dataSource);
+
+    return void res.status(202).json({
+      success: true,
+      message: 'Material queued for reprocessing',
+      jobId: job.id,
+    });
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Stream status/progress changes of the user's materials as Server-Sent Events
+ * @route GET /api/v1/data-sources/events
+ * @protected
+ */
+export const streamDataSourceEvents = async (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const lastSent = new Map<string, string>();
+
+  const send = (event: DataSourceEvent) => {
+    lastSent.set(event.dataSourceId, `${event.status}:${event.progress}`);
+    res.write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  /**
+   * Ingestion may run on another app instance, whose in-process events never reach us.
+   * Periodically compare in-flight materials with the database and send what changed.
+   */
+  const sync = async () => {
+    const trackedIds = Array.from(lastSent.keys());
+    const dataSources = await db.dataSource.findMany({
+      where: {
+        userId,
+        OR: [{ status: DataSourceStatus.PROCESSING }, { id: { in: trackedIds } }],
+      },
+      select: { id: true, status: true, progress: true },
+    });
+
+    for (const dataSource of dataSources) {
+      if (lastSent.get(dataSource.id) === `${dataSource.status}:${dataSource.progress}`) continue;
+      send({ dataSourceId: dataSource.id, status: dataSource.status, progress: dataSource.progress });
+    }
+
+    for (const dataSource of dataSources) {
+      if (dataSource.status !== DataSourceStatus.PROCESSING) lastSent.delete(dataSource.id);
+    }
+  };
+
+  const unsubscribe = subscribeToDataSourceEvents(userId, send);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), EVENT_HEARTBEAT_MS);
+  const syncTimer = setInterval(() => {
+    sync().catch((error) => console.error('Error syncing data source events:', error));
+  }, EVENT_SYNC_INTERVAL_MS);
+
+  req.on('close', () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+    clearInterval(syncTimer);
+  });
+
+  try {
+    await sync();
+  } catch (error) {
+    console.error('Error sending initial data source events:', error);
+  }
+};
+
+interface BulkItemResult {
+  id: string;
+  success: boolean;
+  message?: string;
+}
+
+/**
+ * Apply an operation to each of the user's materials in turn. The operation returns a message
+ * when a material cannot be changed; IDs that are unknown or belong to another user are
+ * reported as not found.
+ */
+const runBulkOperation = async (
+  userId: string,
+  ids: string[],
+  operation: (dataSource: DataSource) => Promise<string | void>
+): Promise<BulkItemResult[]> => {
+  const uniqueIds = Array.from(new Set(ids));
+  const dataSources = await db.dataSource.findMany({
+    where: { id: { in: uniqueIds }, userId },
+  });
+  const dataSourcesById = new Map(dataSources.map((dataSource) => [dataSource.id, dataSource]));
+
+  const results: BulkItemResult[] = [];
+  for (const id of uniqueIds) {
+    const dataSource = dataSourcesById.get(id);
+    if (!dataSource) {
+      results.push({ id, success: false, message: 'Material not found' });
+      continue;
+    }
+
+    try {
+      const failure = await operation(dataSource);
+      results.push(failure ? { id, success: false, message: failure } : { id, success: true });
+    } catch (error) {
+      console.error(`Bulk operation failed for material ${id}:`, error);
+      results.push({ id, success: false, message: 'Internal Server Error' });
+    }
+  }
+
+  return results;
+};
+
+const sendBulkResults = (res: Response, results: BulkItemResult[]) => {
+  const succeeded = results.filter((result) => result.success).length;
+  return void res.json({
+    success: succeeded === results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  });
+};
+
+/**
+ * @desc Move materials to another subject (or out of any subject with subjectId null)
+ * @route POST /api/v1/data-sources/bulk/move
+ * @protected
+ */
+export const bulkMoveDataSources = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { ids, subjectId } = req.body;
+
+    if (subjectId) {
+      const subject = await db.subject.findFirst({
+        where: {
+          id: subjectId,
+          userId,
+        },
+      });
+
+      if (!subject) {
+        return void res.status(404).json({
+          success: false,
+          message: 'Subject not found',
+        });
+      }
+    }
+
+    const results = await runBulkOperation(userId, ids, async (dataSource) => {
+      if (dataSource.subjectId === subjectId) return;
+
+      // Ingestion copies the subject into the embeddings it writes
+      if (await hasActiveIngestionJob(dataSource.id)) {
+        return 'Material is still being processed, try again shortly';
+      }
+
+      // Lessons belong to a subject, so the material leaves its lesson too
+      const moved = await moveDataSource(dataSource, subjectId, null);
+      if (!moved) {
+        return 'Could not update the search index, the material was not moved';
+      }
+    });
+
+    return sendBulkResults(res, results);
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Add and/or remove tags on materials. Tags to add are created on first use.
+ * @route POST /api/v1/data-sources/bulk/tags
+ * @protected
+ */
+export const bulkTagDataSources = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { ids, add = [], remove = [] } = req.body;
+
+    const tagNames = Array.from(
+      new Set<string>(add.map((name: string) => name.toLowerCase().trim()))
+    );
+    const tagsToAdd = await Promise.all(tagNames.map((name) => findOrCreateTag(name, userId)));
+
+    const tagsToRemove = await db.tag.findMany({
+      where: {
+        userId,
+        name: { in: remove.map((name: string) => name.toLowerCase().trim()) },
+      },
+      select: { id: true },
+    });
+
+    const results = await runBulkOperation(userId, ids, async (dataSource) => {
+      await db.$transaction([
+        db.dataSourceTag.deleteMany({
+          where: {
+            dataSourceId: dataSource.id,
+            tagId: { in: tagsToRemove.map((tag) => tag.id) },
+          },
+        }),
+        db.dataSourceTag.createMany({
+          data: tagsToAdd.map((tag) => ({ dataSourceId: dataSource.id, tagId: tag.id })),
+          skipDuplicates: true,
+        }),
+      ]);
+    });
+
+    return sendBulkResults(res, results);
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Delete materials
+ * @route POST /api/v1/data-sources/bulk/delete
+ * @protected
+ */
+export const bulkDeleteDataSources = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { ids } = req.body;
+
+    const results = await runBulkOperation(userId, ids, async (dataSource) => {
+      if (await isIngestionRunning(dataSource.id)) {
+        return 'Material is still being processed, try again shortly';
+      }
+
+      await removeDataSource(dataSource);
+    });
+
+    return sendBulkResults(res, results);
+  } catch (error) {
+    console.error(error);
+    return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+  }
+};
+
+/**
+ * @desc Re-run extraction and embedding for materials
+ * @route POST /api/v1/data-sources/bulk/reprocess
+ * @protected
+ */
+export const bulkReprocessDataSources = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { ids } = req.body;
+
+    const results = await runBulkOperation(userId, ids, async (dataSource) => {
+      if (!hasIngestibleSource(dataSource)) {
+        return 'Material has no uploaded file, URL or content to reprocess';
+      }
+
+      if (await hasActiveIngestionJob(dataSource.id)) {
+        return 'Material is already being processed';
+      }
+
+      await queueReprocessing(dataSource);
+    });
+
+    return sendBulkResults(res, results);
   } catch (error) {
     console.error(error);
     return void res.status(500).json({ success: false, message: 'Internal Server Error' });
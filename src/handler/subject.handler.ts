@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
 import db from '../db/db';
-import { deleteEmbeddingsBySubject } from '../services/milvus';
+import { deleteEmbeddingsBySubject } from '../services/vector.service';
 import { generateLessonContent, generateLessonContentSpecific } from '../services/gemini.service';
+import { getStorage, storeUploadedFile, withLocalFile } from '../services/storage';
 import fs from 'fs/promises';
+import path from 'path';
 /**
  * @desc Upload syllabus PDF for a subject
  * @route POST /api/v1/pyos/subjects/syllabus
@@ -33,9 +35,11 @@ export const uploadSyllabus = async (req: Request, res: Response) => {
       });
     }
 
+    const syllabusPath = await storeUploadedFile(req.file, `syllabuses/${subjectId}`);
+
     if (subject.syllabusPath) {
       try {
-        await fs.unlink(subject.syllabusPath);
+        await getStorage().delete(subject.syllabusPath);
       } catch (error) {
         console.warn('Failed to delete old syllabus file:', error);
       }
@@ -43,13 +47,13 @@ export const uploadSyllabus = async (req: Request, res: Response) => {
 
     await db.subject.update({
       where: { id: subjectId },
-      data: { syllabusPath: req.file.path },
+      data: { syllabusPath },
     });
 
     return void res.status(200).json({
       success: true,
       message: 'Syllabus PDF uploaded successfully',
-      syllabusPath: req.file.path,
+      syllabusPath,
     });
   } catch (error) {
     console.error(error);
@@ -79,9 +83,16 @@ export const getSyllabus = async (req: Request, res: Response) => {
       });
     }
 
-    return void res.download(subject.syllabusPath);
+    const stream = await getStorage().getStream(subject.syllabusPath);
+    res.attachment(path.basename(subject.syllabusPath));
+    stream.on('error', (error) => {
+      console.error('Error streaming syllabus:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
   } catch (error) {
     console.error(error);
+    if (res.headersSent) return void res.end();
     return void res.status(500).json({ success: false, message: 'Internal Server Error' });
   }
 };
@@ -267,7 +278,9 @@ export const generateLessons = async (req: Request, res: Response) => {
     }
 
     if (isNew || reset === 'true') {
-      lessons = await generateLessonContent(subject.syllabusPath, subject.id, subject.name);
+      lessons = await withLocalFile(subject.syllabusPath, (syllabusPath) =>
+        generateLessonContent(syllabusPath, subject.id, subject.name)
+      );
 
       if (existingLessons) {
         await db.dataSource.update({
@@ -7,7 +7,9 @@ import swaggerUi from 'swagger-ui-express';
 import { authRoutes } from './routes/auth.routes';
 import { statsRoutes } from './routes/stats.routes';
 import { dataSourceRoutes } from './routes/source.routes';
+import { filesRoutes } from './routes/files.routes';
 import { queryRoutes } from './routes/query.routes';
+import { chatRoutes } from './routes/chat.routes';
 import { feedRoutes } from './routes/feed.routes';
 import { pyosRoutes } from './routes/pyos.routes';
 import { webhookRoutes } from './webhook/navigation';
@@ -15,6 +17,11 @@ import { quizRoutes } from './routes/quiz.routes';
 import { analyticsRoutes } from './routes/analytics.routes';
 import { translationRoutes } from './routes/translation.routes';
 import placeholderHandler from './handler/placeholder.handler';
+import { startJobWorker } from './services/job-queue.service';
+import { verifyEmbeddingDimension } from './services/llm';
+import './services/ingestion.service';
+import './services/thumbnail.service';
+import './services/quiz-session.service';
 
 dotenv.config();
 
@@ -75,7 +82,9 @@ app.use(
 app.use('/api/v1/stats', statsRoutes);
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/data-sources', dataSourceRoutes);
+app.use('/api/v1/files', filesRoutes);
 app.use('/api/v1/user-query', queryRoutes);
+app.use('/api/v1/chats', chatRoutes);
 app.use('/api/v1/feed', feedRoutes);
 app.use('/api/v1/pyos', pyosRoutes);
 app.use('/webhook', webhookRoutes);
@@ -90,4 +99,8 @@ const PORT = process.env.PORT || 30000;
 
 app.listen(PORT, () => {
   console.log(`Server is running on port http://localhost:${PORT}`);
+  startJobWorker();
+  verifyEmbeddingDimension().catch((error) =>
+    console.error('[LLM] Embedding dimension check failed:', (error as Error).message)
+  );
 });
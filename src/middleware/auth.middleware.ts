@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
+import db from '../db/db';
 
 const JWT_SECRET = process.env.JWT_SECRET as string;
 
@@ -17,3 +19,25 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
     return void res.status(401).json({ success: false, message: 'Invalid token' });
   }
 };
+
+/**
+ * Only let users with the given role through. Must run after authenticate. The role is read
+ * from the database rather than the token, so changing it takes effect immediately.
+ */
+export const requireRole =
+  (role: UserRole) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await db.user.findUnique({
+        where: { id: (req as any).userId },
+        select: { role: true },
+      });
+
+      if (user?.role !== role) {
+        return void res.status(403).json({ success: false, message: 'Forbidden' });
+      }
+      next();
+    } catch (error) {
+      console.error(error);
+      return void res.status(500).json({ success: false, message: 'Internal Server Error' });
+    }
+  };
@@ -1,26 +1,19 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
 
-const uploadsDir = path.join(process.cwd(), 'uploads');
+/**
+ * Uploads land here first; handlers then move them into the configured storage backend
+ */
+const uploadsDir = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'learnability-uploads');
 if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    const subjectId = req.params.subjectId;
-    let uploadPath = uploadsDir;
-
-    if (subjectId) {
-      const subjectDir = path.join(uploadsDir, subjectId);
-      if (!fs.existsSync(subjectDir)) {
-        fs.mkdirSync(subjectDir, { recursive: true });
-      }
-      uploadPath = subjectDir;
-    }
-
-    cb(null, uploadPath);
+    cb(null, uploadsDir);
   },
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
@@ -42,12 +35,17 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
       'image/jpeg',
       'image/png',
       'text/plain',
+      'text/markdown',
+      'text/x-markdown',
       'application/msword',
       'application/octet-stream',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ];
 
-    if (allowedTypes.includes(file.mimetype)) {
+    // Lecture recordings are transcribed during ingestion
+    const isRecording = file.mimetype.startsWith('audio/') || file.mimetype.startsWith('video/');
+
+    if (allowedTypes.includes(file.mimetype) || isRecording) {
       cb(null, true);
     } else {
       cb(new Error('Unsupported file type'));
@@ -59,6 +57,6 @@ export const upload = multer({
   storage: storage,
   fileFilter: fileFilter,
   limits: {
-    fileSize: 10 * 1024 * 1024,
+    fileSize: (Number(process.env.UPLOAD_MAX_FILE_SIZE_MB) || 25) * 1024 * 1024,
   },
 });
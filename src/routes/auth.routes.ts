@@ -86,6 +86,10 @@ const router = Router();
  *           type: string
  *           nullable: true
  *           description: Raw syllabus content uploaded by user (if any)
+ *         role:
+ *           type: string
+ *           enum: [STUDENT, TEACHER]
+ *           description: Teachers can override the grades of answers to their quizzes
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -0,0 +1,372 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import validate from '../middleware/validate.middleware';
+import {
+  createChatSchema,
+  renameChatSchema,
+  sendChatMessageSchema,
+  chatIdParamSchema,
+} from '../schemas/chat.schema';
+import {
+  createChat,
+  getAllChats,
+  getChatById,
+  renameChat,
+  deleteChat,
+  sendChatMessage,
+} from '../handler/chat.handler';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Chat
+ *   description: Persistent multi-turn conversations with the AI tutor
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ChatMessage:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         role:
+ *           type: string
+ *           enum: [user, assistant]
+ *         content:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         confidence:
+ *           type: string
+ *           enum: [high, medium, low]
+ *           description: Only set on assistant messages
+ *         suggestions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Only set on assistant messages
+ *         citations:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Citation'
+ *           description: Only set on assistant messages
+ *     Chat:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         subjectId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: When set, context is only retrieved from this subject's materials
+ *         messages:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ChatMessage'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     ChatSummary:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         subjectId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         subjectName:
+ *           type: string
+ *         subjectColor:
+ *           type: string
+ *         messageCount:
+ *           type: integer
+ *         lastMessage:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /chats:
+ *   post:
+ *     summary: Start a new tutor conversation
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Defaults to "New chat" and is replaced by the first message
+ *               subjectId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *     responses:
+ *       '201':
+ *         description: Conversation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 chat:
+ *                   $ref: '#/components/schemas/Chat'
+ *       '400':
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Subject not found
+ */
+router.post('/', validate(createChatSchema), createChat);
+
+/**
+ * @swagger
+ * /chats:
+ *   get:
+ *     summary: List the user's tutor conversations, most recently active first
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: subjectId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only return conversations about this subject
+ *     responses:
+ *       '200':
+ *         description: List of conversations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 chats:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChatSummary'
+ *       '401':
+ *         description: Unauthorized
+ */
+router.get('/', getAllChats);
+
+/**
+ * @swagger
+ * /chats/{id}:
+ *   get:
+ *     summary: Get a tutor conversation with all of its messages
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       '200':
+ *         description: The conversation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 chat:
+ *                   $ref: '#/components/schemas/Chat'
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Chat not found
+ */
+router.get('/:id', validate(chatIdParamSchema), getChatById);
+
+/**
+ * @swagger
+ * /chats/{id}:
+ *   patch:
+ *     summary: Rename a tutor conversation
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: Conversation renamed
+ *       '400':
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Chat not found
+ */
+router.patch('/:id', validate(renameChatSchema), renameChat);
+
+/**
+ * @swagger
+ * /chats/{id}:
+ *   delete:
+ *     summary: Delete a tutor conversation
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       '200':
+ *         description: Conversation deleted
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Chat not found
+ */
+router.delete('/:id', validate(chatIdParamSchema), deleteChat);
+
+/**
+ * @swagger
+ * /chats/{id}/messages:
+ *   post:
+ *     summary: Send a message and get the tutor's reply
+ *     description: |
+ *       Retrieves context from the user's materials (limited to the conversation's subject, if
+ *       any), answers with the recent turns of the conversation in the prompt, and appends both
+ *       the message and the reply to the conversation. When the materials cannot be searched,
+ *       the reply says so.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *             example:
+ *               content: "Can you explain that again, but simpler?"
+ *     responses:
+ *       '201':
+ *         description: Message and reply saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 chat:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     title:
+ *                       type: string
+ *                     updatedAt:
+ *                       type: string
+ *                       format: date-time
+ *                 userMessage:
+ *                   $ref: '#/components/schemas/ChatMessage'
+ *                 assistantMessage:
+ *                   $ref: '#/components/schemas/ChatMessage'
+ *       '400':
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Chat not found
+ *       '502':
+ *         description: The reply could not be generated. Nothing is saved, so the message can be sent again.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/messages', validate(sendChatMessageSchema), sendChatMessage);
+
+export { router as chatRoutes };
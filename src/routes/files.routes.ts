@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import * as sourceHandler from '../handler/source.handler';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Files
+ *   description: Downloads through signed URLs
+ */
+
+/**
+ * @swagger
+ * /files/download:
+ *   get:
+ *     summary: Download a file through a signed URL
+ *     description: |
+ *       Target of the signed URLs issued by `GET /data-sources/{id}/file-url` when files are
+ *       stored on local disk. The signature authorises the request, so no token is needed.
+ *     tags: [Files]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Unix time after which the URL stops working
+ *       - in: query
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: The file content
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       '403':
+ *         description: Invalid or expired download link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/download', sourceHandler.downloadSignedFile);
+
+export { router as filesRoutes };
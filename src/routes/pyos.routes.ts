@@ -11,6 +11,12 @@ import {
   subjectIdBodySchema,
   optionalSubjectIdBodySchema,
 } from '../schemas/pyos.schema';
+import {
+  bulkDataSourcesSchema,
+  bulkMoveDataSourcesSchema,
+  bulkTagDataSourcesSchema,
+  listDataSourcesSchema,
+} from '../schemas/source.schema';
 import * as subjectHandler from '../handler/subject.handler';
 import * as tagHandler from '../handler/tag.handler';
 import * as sourceHandler from '../handler/source.handler';
@@ -717,15 +723,96 @@ router.delete('/tags/:id', validate(quizIdParamSchema), tagHandler.deleteTag);
  *     tags: [DataSources (PYOS)]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Search the name, tags, description and extracted text. Every word must match,
+ *           as a prefix ("bio" matches "biology").
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: One or more types, comma-separated or repeated (e.g. PDF,VIDEO)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: One or more statuses, comma-separated or repeated
+ *       - in: query
+ *         name: subjectId
+ *         schema:
+ *           type: string
+ *         description: Subject ID, or "none" for materials without a subject
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Materials with any of these tags, comma-separated or repeated
+ *       - in: query
+ *         name: uploadedAfter
+ *         schema:
+ *           type: string
+ *         description: ISO date or date-time (inclusive)
+ *       - in: query
+ *         name: uploadedBefore
+ *         schema:
+ *           type: string
+ *         description: ISO date-time, or a date to include that whole day
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [relevance, uploadDate, name, size]
+ *         description: Defaults to relevance when searching, otherwise uploadDate
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Defaults to asc for name and desc otherwise
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Page size (default 50). Without limit or cursor all matches are returned.
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous page, used with the same sort and order
  *     responses:
  *       '200':
- *         description: A list of data sources
+ *         description: |
+ *           Materials of the page. When searching, each material also has a `relevance`
+ *           score and a `snippet` of the matching text.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/DataSource' # Assumes DataSource schema is defined
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 total:
+ *                   type: integer
+ *                   description: Number of materials matching the search and filters
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 materials:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DataSource'
+ *       '400':
+ *         description: Invalid filter, sort or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       '401':
  *         description: Unauthorized
  *         content:
@@ -739,7 +826,7 @@ router.delete('/tags/:id', validate(quizIdParamSchema), tagHandler.deleteTag);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/materials', sourceHandler.getAllDataSources);
+router.get('/materials', validate(listDataSourcesSchema), sourceHandler.getAllDataSources);
 
 /**
  * @swagger
@@ -886,4 +973,154 @@ router.post(
   sourceHandler.createDataSource
 );
 
+/**
+ * @swagger
+ * /pyos/materials/bulk/move:
+ *   post:
+ *     summary: Move materials to another subject (Duplicate Route)
+ *     description: Same as POST /data-sources/bulk/move.
+ *     tags: [DataSources (PYOS)]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids, subjectId]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *               subjectId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ *       '404':
+ *         description: Subject not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/materials/bulk/move',
+  validate(bulkMoveDataSourcesSchema),
+  sourceHandler.bulkMoveDataSources
+);
+
+/**
+ * @swagger
+ * /pyos/materials/bulk/tags:
+ *   post:
+ *     summary: Add and remove tags on materials (Duplicate Route)
+ *     description: Same as POST /data-sources/bulk/tags.
+ *     tags: [DataSources (PYOS)]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *               add:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               remove:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ */
+router.post(
+  '/materials/bulk/tags',
+  validate(bulkTagDataSourcesSchema),
+  sourceHandler.bulkTagDataSources
+);
+
+/**
+ * @swagger
+ * /pyos/materials/bulk/delete:
+ *   post:
+ *     summary: Delete materials (Duplicate Route)
+ *     description: Same as POST /data-sources/bulk/delete.
+ *     tags: [DataSources (PYOS)]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ */
+router.post(
+  '/materials/bulk/delete',
+  validate(bulkDataSourcesSchema),
+  sourceHandler.bulkDeleteDataSources
+);
+
+/**
+ * @swagger
+ * /pyos/materials/bulk/reprocess:
+ *   post:
+ *     summary: Re-run extraction and embedding for materials (Duplicate Route)
+ *     description: Same as POST /data-sources/bulk/reprocess.
+ *     tags: [DataSources (PYOS)]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ */
+router.post(
+  '/materials/bulk/reprocess',
+  validate(bulkDataSourcesSchema),
+  sourceHandler.bulkReprocessDataSources
+);
+
 export { router as pyosRoutes };
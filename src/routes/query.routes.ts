@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { authenticate } from '../middleware/auth.middleware';
 import validate from '../middleware/validate.middleware';
 import { queryInputSchema } from '../schemas/query.schema';
-import { answerUserQuery } from '../handler/query.handler';
+import { answerUserQuery, streamUserQuery } from '../handler/query.handler';
 
 const router = Router();
 
@@ -29,6 +29,24 @@ const router = Router();
  *           type: string
  *           format: uuid
  *           description: ID of a specific subject to limit the search scope (optional)
+ *         mode:
+ *           type: string
+ *           enum: [vector, keyword, hybrid]
+ *           default: hybrid
+ *           description: |
+ *             Retrieval strategy. `vector` uses embedding similarity, `keyword` uses full-text search
+ *             (exact terms such as formula names, chemical symbols and code identifiers), and `hybrid`
+ *             combines both with reciprocal rank fusion.
+ *         topK:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 3
+ *           description: Number of context chunks used to answer
+ *         rerank:
+ *           type: boolean
+ *           default: false
+ *           description: Let the LLM reorder the retrieved candidates by relevance (slower)
  *       example:
  *         query: "Explain the process of photosynthesis."
  *         subjectId: "subj_abc123"
@@ -51,12 +69,68 @@ const router = Router();
  *               score: # Relevance score from Milvus
  *                 type: number
  *                 format: float
+ *         citations:
+ *           type: array
+ *           description: The excerpts referenced by the inline [n] markers in the answer
+ *           items:
+ *             $ref: '#/components/schemas/Citation'
  *       example:
- *         answer: "Photosynthesis is the process used by plants..."
+ *         answer: "Photosynthesis is the process used by plants... [1]"
  *         sources:
  *           - documentId: "doc_xyz789"
  *             snippet: "...chlorophyll absorbs sunlight..."
  *             score: 0.95
+ *         citations:
+ *           - marker: 1
+ *             dataSourceId: "doc_xyz789"
+ *             dataSourceName: "Biology notes - week 3"
+ *             chunkIndex: 4
+ *             lines: { from: 112, to: 139 }
+ *             snippet: "...chlorophyll absorbs sunlight..."
+ *             score: 0.95
+ *     Citation:
+ *       type: object
+ *       properties:
+ *         marker:
+ *           type: integer
+ *           description: The number used in the inline [n] marker
+ *         dataSourceId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         dataSourceName:
+ *           type: string
+ *           nullable: true
+ *         chunkIndex:
+ *           type: integer
+ *           nullable: true
+ *           description: Position of the chunk within its data source
+ *         lines:
+ *           type: object
+ *           nullable: true
+ *           description: Line range of the chunk within the extracted text
+ *           properties:
+ *             from:
+ *               type: integer
+ *             to:
+ *               type: integer
+ *         startTime:
+ *           type: number
+ *           nullable: true
+ *           description: Seconds into the recording, for excerpts of transcribed audio or video
+ *         endTime:
+ *           type: number
+ *           nullable: true
+ *         timestamp:
+ *           type: string
+ *           nullable: true
+ *           description: startTime as m:ss or h:mm:ss
+ *           example: "12:30"
+ *         snippet:
+ *           type: string
+ *         score:
+ *           type: number
+ *           format: float
  *     # Re-use ErrorResponse if defined globally
  *     # ErrorResponse:
  *     #   type: object
@@ -109,4 +183,73 @@ router.use(authenticate);
  */
 router.post('/', validate(queryInputSchema), answerUserQuery);
 
+/**
+ * @swagger
+ * /user-query/stream:
+ *   post:
+ *     summary: Answer a user query, streaming the answer as it is generated (Server-Sent Events)
+ *     description: |
+ *       Emits `token` events (`{ "text": "..." }`) while the answer is generated, then a single
+ *       `done` event with the full answer and its structured fields. An `error` event is sent
+ *       instead of `done` if generation fails.
+ *     tags: [Query]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QueryInput'
+ *     responses:
+ *       '200':
+ *         description: Event stream of answer tokens followed by the final answer
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 answer:
+ *                   type: string
+ *                 confidence:
+ *                   type: string
+ *                   enum: [high, medium, low]
+ *                 suggestions:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 relevanceScore:
+ *                   type: number
+ *                 sources:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       dataSourceId:
+ *                         type: string
+ *                       chunkId:
+ *                         type: integer
+ *                       score:
+ *                         type: number
+ *                       snippet:
+ *                         type: string
+ *                 citations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Citation'
+ *       '400':
+ *         description: Bad Request (e.g., empty query)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '401':
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/stream', validate(queryInputSchema), streamUserQuery);
+
 export { router as queryRoutes };
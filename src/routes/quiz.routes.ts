@@ -1,10 +1,14 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { UserRole } from '@prisma/client';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
 import validate from '../middleware/validate.middleware';
 import {
   createQuizSchema,
   generateQuizSchema,
   submitQuizAttemptSchema,
+  saveQuizSessionAnswersSchema,
+  submitQuizSessionSchema,
+  overrideQuizAnswerGradeSchema,
   quizIdParamSchema,
 } from '../schemas/quiz.schema';
 import {
@@ -14,7 +18,11 @@ import {
   createQuiz,
   deleteQuiz,
   submitQuizAttempt,
+  startQuizSessionHandler,
+  saveQuizSessionAnswersHandler,
+  submitQuizSession,
   getQuizAttempts,
+  overrideQuizAnswerGradeHandler,
 } from '../handler/quiz.handler';
 
 const router = Router();
@@ -34,20 +42,59 @@ const router = Router();
  *       type: object
  *       required:
  *         - text
- *         - options
- *         - correctAnswer
  *       properties:
  *         text:
  *           type: string
  *           description: The question text
+ *         type:
+ *           type: string
+ *           enum: [multiple-choice, true-false, multi-select, ordering, matching, numeric, fill-blank, short-answer, essay]
+ *           default: multiple-choice
  *         options:
  *           type: array
  *           items:
  *             type: string
- *           description: Possible answers
+ *           description: Possible answers, for choice questions. For ordering questions, the items in the correct order.
  *         correctAnswer:
  *           type: string
- *           description: The correct answer (must match one of the options)
+ *           description: The correct answer. For multiple-choice and true-false questions it must match one of the options. Also the expected answer of fill-blank questions and the model answer of short-answer and essay questions.
+ *         correctAnswers:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: The correct options of a multi-select question
+ *         pairs:
+ *           type: array
+ *           description: The pairs of a matching question
+ *           items:
+ *             type: object
+ *             properties:
+ *               prompt:
+ *                 type: string
+ *               match:
+ *                 type: string
+ *         value:
+ *           type: number
+ *           description: The answer to a numeric question
+ *         tolerance:
+ *           type: number
+ *           description: How far a numeric answer may be off the value and still count
+ *         unit:
+ *           type: string
+ *           description: Unit of a numeric answer, e.g. "m/s". Answers in other SI prefixes of the unit are converted.
+ *         acceptedAnswers:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Other answers a fill-blank question accepts besides the correctAnswer, e.g. synonyms
+ *         typoTolerance:
+ *           type: integer
+ *           nullable: true
+ *           description: Typos a fill-blank answer may have and still count. By default none for answers of up to 4 characters, 1 up to 8 and 2 for longer ones.
+ *         aiEquivalence:
+ *           type: boolean
+ *           default: false
+ *           description: Ask AI whether fill-blank answers that match no accepted answer mean the same thing
  *         difficulty:
  *           type: string
  *           enum: [easy, medium, hard]
@@ -148,20 +195,178 @@ const router = Router();
  *         answers:
  *           type: array
  *           items:
+ *             type: object
  *             properties:
  *               questionId:
- *                 type: string # Assuming question IDs/indices are strings or numbers within the JSON
- *                 description: Identifier for the question being answered (e.g., index or unique ID within the quiz JSON)
- *               selectedAnswer:
  *                 type: string
- *                 description: The answer selected by the user
- *           description: Array of user's answers, structure depends on how questions are identified within the JSON
+ *                 description: ID of the question being answered
+ *               answerId:
+ *                 type: string
+ *                 description: ID of the selected answer option
+ *               answerIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the selected options of a multi-select question, or the options of an ordering question in the chosen order
+ *               matches:
+ *                 type: array
+ *                 description: Pairs chosen for a matching question
+ *                 items:
+ *                   $ref: '#/components/schemas/QuizAnswerMatch'
+ *               text:
+ *                 type: string
+ *                 description: Typed answer, for numeric, fill-blank, short-answer and essay questions
  *       example:
  *         answers:
- *           - questionId: "0" # Example using index
- *             selectedAnswer: "Paris"
- *           - questionId: "1"
- *             selectedAnswer: "Mars"
+ *           - questionId: "0b7c2a7e-3f4d-4a55-9d6b-1c2e3f4a5b6c"
+ *             answerId: "5a1d9c3e-7b2f-4e8a-a1c3-9f8e7d6c5b4a"
+ *     QuizSessionAnswer:
+ *       type: object
+ *       required:
+ *         - questionId
+ *       properties:
+ *         questionId:
+ *           type: string
+ *         answerId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the selected answer option
+ *         answerIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: IDs of the selected options of a multi-select question, or the options of an ordering question in the chosen order
+ *         matches:
+ *           type: array
+ *           nullable: true
+ *           items:
+ *             $ref: '#/components/schemas/QuizAnswerMatch'
+ *         text:
+ *           type: string
+ *           nullable: true
+ *           description: Typed answer, for numeric, fill-blank, short-answer and essay questions
+ *     QuizAnswerMatch:
+ *       type: object
+ *       required:
+ *         - optionId
+ *         - matchId
+ *       properties:
+ *         optionId:
+ *           type: string
+ *           description: ID of the answer option being matched
+ *         matchId:
+ *           type: string
+ *           description: ID of the entry of the question's matches picked for it
+ *     QuizSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         quizId:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [ACTIVE, SUBMITTED, EXPIRED]
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Deadline from the quiz's time limit. Null for untimed quizzes.
+ *         remainingSeconds:
+ *           type: integer
+ *           nullable: true
+ *         answers:
+ *           type: array
+ *           description: Answers saved so far
+ *           items:
+ *             $ref: '#/components/schemas/QuizSessionAnswer'
+ *         quiz:
+ *           type: object
+ *           description: The quiz being taken. Questions do not say which answers are correct.
+ *           properties:
+ *             id:
+ *               type: string
+ *             title:
+ *               type: string
+ *             timeLimit:
+ *               type: integer
+ *               nullable: true
+ *             passingScore:
+ *               type: integer
+ *             questions:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/QuizQuestion'
+ *     QuizQuestion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         content:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [multiple-choice, true-false, multi-select, ordering, matching, numeric, fill-blank, short-answer, essay]
+ *         difficulty:
+ *           type: string
+ *           nullable: true
+ *         points:
+ *           type: integer
+ *         explanation:
+ *           type: string
+ *           nullable: true
+ *         numericAnswer:
+ *           type: number
+ *           nullable: true
+ *           description: Answer to a numeric question. Omitted when the quiz is being taken.
+ *         tolerance:
+ *           type: number
+ *           nullable: true
+ *           description: Omitted when the quiz is being taken
+ *         unit:
+ *           type: string
+ *           nullable: true
+ *           description: Unit of a numeric answer
+ *         typoTolerance:
+ *           type: integer
+ *           nullable: true
+ *           description: Omitted when the quiz is being taken
+ *         aiEquivalence:
+ *           type: boolean
+ *           description: Omitted when the quiz is being taken
+ *         matches:
+ *           type: array
+ *           description: Shuffled choices for the answers of a matching question, when the quiz is being taken
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *         answers:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *               isCorrect:
+ *                 type: boolean
+ *                 description: Omitted when the quiz is being taken
+ *               match:
+ *                 type: string
+ *                 nullable: true
+ *                 description: The item this answer pairs with in a matching question. Omitted when the quiz is being taken.
+ *               explanation:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Omitted when the quiz is being taken
  *     Quiz:
  *       # Based on Prisma Quiz model
  *       type: object
@@ -177,10 +382,11 @@ const router = Router();
  *         difficulty:
  *           type: string
  *           default: "Medium"
- *         questions: # Stored as Json
- *           type: object # Or array, depending on how you structure/return it
- *           description: The questions associated with the quiz (structure defined by application). Might omit correctAnswer.
- *           example: [{"text": "Q1?", "options": ["A", "B"], "difficulty": "easy"}, {"text": "Q2?", "options": ["C", "D"], "difficulty": "medium"}]
+ *         questions:
+ *           type: array
+ *           description: The quiz's questions, in order
+ *           items:
+ *             $ref: '#/components/schemas/QuizQuestion'
  *         questionCount:
  *           type: integer
  *           default: 0
@@ -203,10 +409,11 @@ const router = Router();
  *         userId:
  *           type: string
  *           # format: uuid
- *         attempts: # Stored as Json
- *           type: object # Or array, depending on structure. Likely omitted in general GET requests.
- *           nullable: true
- *           description: Record of attempts made on this quiz (structure defined by application).
+ *         attempts:
+ *           type: array
+ *           description: Attempts made on this quiz, oldest first. Only included when requested with includeAttempts=true.
+ *           items:
+ *             $ref: '#/components/schemas/QuizAttempt'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -214,49 +421,90 @@ const router = Router();
  *           type: string
  *           format: date-time
  *     QuizAttempt:
- *       # Represents an entry within the 'attempts' Json field of the Quiz model
- *       # Structure is defined by application logic, this is an example
  *       type: object
  *       properties:
- *         attemptId: # Example property
+ *         id:
  *           type: string
- *           format: uuid
  *         userId:
  *           type: string
- *           # format: uuid
- *         submittedAt:
- *           type: string
- *           format: date-time
  *         score:
  *           type: number
- *           format: float # Or integer
- *         answers: # Example: include the submitted answers
+ *         maxScore:
+ *           type: number
+ *         percentage:
+ *           type: integer
+ *         passed:
+ *           type: boolean
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *         answers:
  *           type: array
  *           items:
  *             type: object
  *             properties:
  *               questionId:
  *                 type: string
- *               selectedAnswer:
+ *               givenAnswer:
+ *                 type: string
+ *                 description: ID of the selected answer option, or the typed answer
+ *               answerIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               matches:
+ *                 type: array
+ *                 nullable: true
+ *                 items:
+ *                   $ref: '#/components/schemas/QuizAnswerMatch'
+ *               isCorrect:
+ *                 type: boolean
+ *               pointsEarned:
+ *                 type: number
+ *               feedback:
+ *                 type: string
+ *                 nullable: true
+ *               gradedBy:
+ *                 type: string
+ *                 enum: [AUTO, AI, TEACHER]
+ *                 description: Whether the answer was checked against the answer key, graded by AI against the question's rubric, or graded by a teacher
+ *               justification:
  *                 type: string
+ *                 nullable: true
+ *                 description: Why the answer earned its points, for AI and teacher grades
+ *               matchRule:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [EXACT, NORMALIZED, NUMERIC, TYPO, AI_EQUIVALENT]
+ *                 description: How a fill-blank answer was matched to an accepted answer. EXACT ignores case, NORMALIZED also ignores punctuation and diacritics, NUMERIC compares numbers however they are written, TYPO allows the question's typo tolerance and AI_EQUIVALENT was judged to mean the same by AI.
+ *               needsReview:
+ *                 type: boolean
+ *                 description: Whether this open-ended answer could not be graded automatically and awaits grading by a teacher
+ *               originalPointsEarned:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Points from automatic or AI grading, once a teacher has overridden them
+ *               overriddenAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               overriddenById:
+ *                 type: string
+ *                 nullable: true
+ *                 description: ID of the teacher who last overrode the grade
  *       example:
- *         attemptId: "attempt_xyz123"
+ *         id: "9d2f4c1a-6b3e-4f7a-8c5d-2e1f0a9b8c7d"
  *         userId: "user_abc456"
- *         submittedAt: "2025-03-31T21:00:00.000Z"
- *         score: 85.5
- *         answers: [{"questionId": "0", "selectedAnswer": "Paris"}]
- *
- *   # Placeholder for Question schema if needed separately
- *   # schemas:
- *   #   Question:
- *   #     type: object
- *   #     properties:
- *   #       id: string
- *   #       text: string
- *   #       options: [string]
- *   #       # Don't usually return correctAnswer in GET requests
- *   #       difficulty: string
- *   #       explanation: string
+ *         score: 20
+ *         maxScore: 30
+ *         percentage: 67
+ *         passed: false
+ *         startedAt: "2025-03-31T20:45:00.000Z"
+ *         completedAt: "2025-03-31T21:00:00.000Z"
+ *         answers: [{"questionId": "0b7c2a7e-3f4d-4a55-9d6b-1c2e3f4a5b6c", "givenAnswer": "5a1d9c3e-7b2f-4e8a-a1c3-9f8e7d6c5b4a", "isCorrect": true, "pointsEarned": 10, "feedback": null, "gradedBy": "AUTO", "justification": null}]
  */
 
 router.use(authenticate);
@@ -466,6 +714,7 @@ router.delete('/:id', validate(quizIdParamSchema), deleteQuiz);
  * /quizzes/{id}/attempt:
  *   post:
  *     summary: Submit an attempt for a specific quiz
+ *     description: Scores all answers at once. Timed quizzes must be taken in a session instead (see /quizzes/{id}/start).
  *     tags: [Quiz]
  *     security:
  *       - bearerAuth: []
@@ -530,7 +779,7 @@ router.delete('/:id', validate(quizIdParamSchema), deleteQuiz);
  *                         nullable: true
  *                         description: AI-generated feedback for incorrect answers
  *       '400':
- *         description: Bad Request (e.g., validation error, already attempted)
+ *         description: Bad Request (e.g., validation error, or the quiz is timed)
  *         content:
  *           application/json:
  *             schema:
@@ -556,6 +805,210 @@ router.delete('/:id', validate(quizIdParamSchema), deleteQuiz);
  */
 router.post('/:id/attempt', validate(submitQuizAttemptSchema), submitQuizAttempt);
 
+/**
+ * @swagger
+ * /quizzes/{id}/start:
+ *   post:
+ *     summary: Start taking a quiz
+ *     description: >
+ *       Creates a session timed by the server. Timed quizzes get a deadline from their time limit,
+ *       after which the session is submitted automatically with the answers saved so far. If a
+ *       session is already in progress it is returned instead.
+ *     tags: [Quiz]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the quiz to take
+ *     responses:
+ *       '200':
+ *         description: The session already in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 session:
+ *                   $ref: '#/components/schemas/QuizSession'
+ *       '201':
+ *         description: Session started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 session:
+ *                   $ref: '#/components/schemas/QuizSession'
+ *       '401':
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Quiz not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '500':
+ *         description: Internal Server Error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/start', validate(quizIdParamSchema), startQuizSessionHandler);
+
+/**
+ * @swagger
+ * /quizzes/{id}/sessions/{sessionId}/answers:
+ *   put:
+ *     summary: Save answers during a quiz session
+ *     description: Replaces earlier answers to the same questions. Answers can be saved until the deadline.
+ *     tags: [Quiz]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answers
+ *             properties:
+ *               answers:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/QuizSessionAnswer'
+ *     responses:
+ *       '200':
+ *         description: Answers saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 answers:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/QuizSessionAnswer'
+ *                 remainingSeconds:
+ *                   type: integer
+ *                   nullable: true
+ *       '400':
+ *         description: Validation error, or a question is not in this quiz
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Quiz session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: The session has ended. If time just ran out, the resulting attempt is included.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id/sessions/:sessionId/answers',
+  validate(saveQuizSessionAnswersSchema),
+  saveQuizSessionAnswersHandler
+);
+
+/**
+ * @swagger
+ * /quizzes/{id}/sessions/{sessionId}/submit:
+ *   post:
+ *     summary: Submit a quiz session for scoring
+ *     description: >
+ *       Scores the saved answers together with any sent in the request. After the deadline only
+ *       answers saved in time count. Submitting a session that has already ended returns its attempt.
+ *     tags: [Quiz]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               answers:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/QuizSessionAnswer'
+ *     responses:
+ *       '200':
+ *         description: The scored attempt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 attempt:
+ *                   $ref: '#/components/schemas/QuizAttempt'
+ *                 expired:
+ *                   type: boolean
+ *                   description: Whether time ran out before the session was submitted
+ *       '404':
+ *         description: Quiz session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: The session is already being submitted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/sessions/:sessionId/submit',
+  validate(submitQuizSessionSchema),
+  submitQuizSession
+);
+
 /**
  * @swagger
  * /quizzes/{id}/attempts:
@@ -602,4 +1055,90 @@ router.post('/:id/attempt', validate(submitQuizAttemptSchema), submitQuizAttempt
  */
 router.get('/:id/attempts', validate(quizIdParamSchema), getQuizAttempts);
 
+/**
+ * @swagger
+ * /quizzes/{id}/attempts/{attemptId}/answers/{questionId}:
+ *   patch:
+ *     summary: Override the grade of an open-ended answer
+ *     description: Lets a teacher who created the quiz grade an essay or short answer, whether the AI graded it or could not (needsReview). The first override keeps the previous score in originalPointsEarned. The attempt's score and the user's quiz average are updated to match.
+ *     tags: [Quiz]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attemptId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pointsEarned
+ *             properties:
+ *               pointsEarned:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Up to the question's points
+ *               justification:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Why the answer earned these points
+ *     responses:
+ *       '200':
+ *         description: The regraded attempt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 attempt:
+ *                   $ref: '#/components/schemas/QuizAttempt'
+ *       '400':
+ *         description: Validation error, or more points than the question is worth
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '403':
+ *         description: The user is not a teacher
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Answer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: The answer is not to an essay or short-answer question
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/:id/attempts/:attemptId/answers/:questionId',
+  requireRole(UserRole.TEACHER),
+  validate(overrideQuizAnswerGradeSchema),
+  overrideQuizAnswerGradeHandler
+);
+
 export { router as quizRoutes };
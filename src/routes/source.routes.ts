@@ -4,6 +4,17 @@ import { upload } from '../middleware/upload.middleware';
 import validate from '../middleware/validate.middleware';
 import { quizIdParamSchema } from '../schemas/quiz.schema';
 import { optionalSubjectIdBodySchema } from '../schemas/pyos.schema';
+import {
+  bulkDataSourcesSchema,
+  bulkMoveDataSourcesSchema,
+  bulkTagDataSourcesSchema,
+  dataSourceChunksSchema,
+  dataSourceFileSchema,
+  dataSourceTranscriptSchema,
+  dataSourceVersionSchema,
+  listDataSourcesSchema,
+  updateDataSourceSchema,
+} from '../schemas/source.schema';
 import * as sourceHandler from '../handler/source.handler';
 
 const router = Router();
@@ -76,7 +87,7 @@ const router = Router();
  *         thumbnail:
  *           type: string
  *           nullable: true
- *           description: URL to a thumbnail image
+ *           description: URL of the thumbnail image (GET /data-sources/{id}/thumbnail, or the YouTube thumbnail for YouTube imports)
  *         tags: # Relation handled via DataSourceTag, might return array of Tag names/IDs
  *           type: array
  *           items:
@@ -109,7 +120,7 @@ const router = Router();
  *         subjectId: "subj_xyz789"
  *         lessonId: null
  *         description: "First chapter on core concepts."
- *         thumbnail: "/thumbnails/chapter1.jpg"
+ *         thumbnail: "/api/v1/data-sources/ds_abc123/thumbnail"
  *         tags: [{ "tagId": "tag_basics", "name": "Basics" }]
  *         userId: "user_pqr456"
  *         createdAt: "2025-03-31T19:00:00.000Z"
@@ -119,6 +130,138 @@ const router = Router();
  *     DataSourceType: # Define Enum
  *       type: string
  *       enum: [WEBSITE, TEXT, DOCS, PDF, IMAGE, VIDEO, AUDIO, YOUTUBE]
+ *     DataSourceChunk:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         dataSourceId:
+ *           type: string
+ *           format: uuid
+ *         order:
+ *           type: integer
+ *           description: Position of the chunk within the data source, starting at 0
+ *         text:
+ *           type: string
+ *         startOffset:
+ *           type: integer
+ *           nullable: true
+ *           description: Character offset of the chunk start in the extracted content
+ *         endOffset:
+ *           type: integer
+ *           nullable: true
+ *           description: Character offset just past the chunk end in the extracted content
+ *         pageNumber:
+ *           type: integer
+ *           nullable: true
+ *         tokenCount:
+ *           type: integer
+ *           description: Estimated number of tokens
+ *         startTime:
+ *           type: number
+ *           nullable: true
+ *           description: Seconds into the recording where the chunk starts (audio and video only)
+ *         endTime:
+ *           type: number
+ *           nullable: true
+ *         embeddingStatus:
+ *           type: string
+ *           enum: [PENDING, EMBEDDED, FAILED]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     DataSourceVersion:
+ *       type: object
+ *       properties:
+ *         version:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         fileType:
+ *           type: string
+ *         size:
+ *           type: integer
+ *         url:
+ *           type: string
+ *           nullable: true
+ *         contentHash:
+ *           type: string
+ *           nullable: true
+ *           description: SHA-256 of the file
+ *         uploadedAt:
+ *           type: string
+ *           format: date-time
+ *         replacedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When a newer version replaced this one (null for the current version)
+ *         current:
+ *           type: boolean
+ *     TranscriptSegment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         dataSourceId:
+ *           type: string
+ *           format: uuid
+ *         order:
+ *           type: integer
+ *         startTime:
+ *           type: number
+ *           description: Seconds from the start of the recording
+ *         endTime:
+ *           type: number
+ *         text:
+ *           type: string
+ *     BulkDataSourceIds:
+ *       type: array
+ *       minItems: 1
+ *       maxItems: 100
+ *       items:
+ *         type: string
+ *         format: uuid
+ *     BulkResult:
+ *       type: object
+ *       description: |
+ *         Outcome of a bulk operation. Each material is handled on its own, so some can
+ *         succeed while others fail; `success` is true only when all of them succeeded.
+ *       properties:
+ *         success:
+ *           type: boolean
+ *         succeeded:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         results:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               success:
+ *                 type: boolean
+ *               message:
+ *                 type: string
+ *                 description: Why the material was not changed
+ *       example:
+ *         success: false
+ *         succeeded: 1
+ *         failed: 1
+ *         results:
+ *           - id: "9b2f6a1e-3c1d-4d8e-9a77-0f3b2c1d4e5f"
+ *             success: true
+ *           - id: "1c0e9d8b-7a6f-4e5d-8c3b-2a1f0e9d8c7b"
+ *             success: false
+ *             message: "Material not found"
  *     # Re-use ErrorResponse if defined globally
  *     # ErrorResponse:
  *     #   type: object
@@ -133,19 +276,100 @@ router.use(authenticate);
  * @swagger
  * /data-sources:
  *   get:
- *     summary: Retrieve all data sources for the authenticated user
+ *     summary: Search, filter and page through the data sources of the authenticated user
  *     tags: [DataSources]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Search the name, tags, description and extracted text. Every word must match,
+ *           as a prefix ("bio" matches "biology").
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: One or more types, comma-separated or repeated (e.g. PDF,VIDEO)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: One or more statuses, comma-separated or repeated
+ *       - in: query
+ *         name: subjectId
+ *         schema:
+ *           type: string
+ *         description: Subject ID, or "none" for materials without a subject
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Materials with any of these tags, comma-separated or repeated
+ *       - in: query
+ *         name: uploadedAfter
+ *         schema:
+ *           type: string
+ *         description: ISO date or date-time (inclusive)
+ *       - in: query
+ *         name: uploadedBefore
+ *         schema:
+ *           type: string
+ *         description: ISO date-time, or a date to include that whole day
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [relevance, uploadDate, name, size]
+ *         description: Defaults to relevance when searching, otherwise uploadDate
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Defaults to asc for name and desc otherwise
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Page size (default 50). Without limit or cursor all matches are returned.
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous page, used with the same sort and order
  *     responses:
  *       '200':
- *         description: A list of data sources
+ *         description: |
+ *           Materials of the page. When searching, each material also has a `relevance`
+ *           score and a `snippet` of the matching text.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/DataSource'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 total:
+ *                   type: integer
+ *                   description: Number of materials matching the search and filters
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 materials:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DataSource'
+ *       '400':
+ *         description: Invalid filter, sort or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       '401':
  *         description: Unauthorized
  *         content:
@@ -159,13 +383,21 @@ router.use(authenticate);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/', sourceHandler.getAllDataSources);
+router.get('/', validate(listDataSourcesSchema), sourceHandler.getAllDataSources);
 
 /**
  * @swagger
  * /data-sources:
  *   post:
  *     summary: Upload and create new data sources (e.g., documents)
+ *     description: |
+ *       Creates data sources from uploaded files, from direct `content`, or by importing a
+ *       `sourceUrl`. URLs of YouTube videos become YOUTUBE materials built from the video
+ *       transcript; any other public web page becomes a WEBSITE material built from its
+ *       readable article text. Direct content (e.g. pasted notes) defaults to a TEXT material.
+ *       Audio and video uploads (e.g. lecture recordings) are transcribed into timestamped
+ *       segments.
+ *       Everything is chunked and embedded in the background.
  *     tags: [DataSources]
  *     security:
  *       - bearerAuth: []
@@ -186,6 +418,37 @@ router.get('/', sourceHandler.getAllDataSources);
  *                 type: string
  *                 format: uuid
  *                 description: ID of the subject to associate the documents with (optional?)
+ *               allowDuplicates:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Upload files even if an identical file was uploaded before
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Text of a note; `name` is required with it
+ *               sourceUrl:
+ *                 type: string
+ *                 format: uri
+ *                 description: Public web page or YouTube video to import
+ *                 example: "https://www.youtube.com/watch?v=dQw4w9WgXcQ"
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the page or video title
+ *               type:
+ *                 type: string
+ *                 description: |
+ *                   WEBSITE or YOUTUBE for URL imports (detected when omitted); TEXT by default
+ *                   for direct content
+ *               subjectId:
+ *                 type: string
+ *                 format: uuid
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
  *     responses:
  *       '201':
  *         description: Data sources created successfully (processing may be ongoing)
@@ -196,7 +459,7 @@ router.get('/', sourceHandler.getAllDataSources);
  *               items:
  *                 $ref: '#/components/schemas/DataSource'
  *       '400':
- *         description: Bad Request (e.g., no files uploaded, invalid subjectId)
+ *         description: Bad Request (e.g., no files uploaded, invalid subjectId, private or non-http URL)
  *         content:
  *           application/json:
  *             schema:
@@ -207,6 +470,14 @@ router.get('/', sourceHandler.getAllDataSources);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: |
+ *           Every uploaded file is identical to one uploaded before. `duplicates` lists the
+ *           existing materials; duplicates among several new files are skipped the same way.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       '500':
  *         description: Internal Server Error (e.g., file storage issue)
  *         content:
@@ -215,6 +486,57 @@ router.get('/', sourceHandler.getAllDataSources);
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 
+/**
+ * @swagger
+ * /data-sources/events:
+ *   get:
+ *     summary: Stream processing status of the user's data sources (Server-Sent Events)
+ *     description: |
+ *       Keeps the connection open and sends a `status` event whenever a data source changes
+ *       status or progress. On connect, the current state of every data source still being
+ *       processed is sent. Authenticate with the `authToken` cookie when using EventSource.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Event stream of data source status changes
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dataSourceId:
+ *                   type: string
+ *                 status:
+ *                   $ref: '#/components/schemas/DataSourceStatus'
+ *                 progress:
+ *                   type: integer
+ *                   nullable: true
+ *                 chunksEmbedded:
+ *                   type: integer
+ *                   description: Chunks embedded so far (only while embedding)
+ *                 totalChunks:
+ *                   type: integer
+ *                   description: Total chunks to embed (only while embedding)
+ *                 error:
+ *                   type: string
+ *                   description: Failure reason when status is ERROR
+ *             example:
+ *               dataSourceId: "ds_abc123"
+ *               status: "PROCESSING"
+ *               progress: 72
+ *               chunksEmbedded: 22
+ *               totalChunks: 45
+ *       '401':
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/events', sourceHandler.streamDataSourceEvents);
+
 router.post(
   '/',
   upload.array('documents', 10),
@@ -222,6 +544,174 @@ router.post(
   sourceHandler.createDataSource
 );
 
+/**
+ * @swagger
+ * /data-sources/bulk/move:
+ *   post:
+ *     summary: Move materials to another subject
+ *     description: |
+ *       Updates the subject stored with the materials' embeddings as well, so subject-scoped
+ *       search keeps finding them. Materials leave their lesson when they change subject.
+ *       Materials that are still being processed are not moved.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids, subjectId]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *               subjectId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Target subject, or null to remove the materials from their subject
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ *       '400':
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Subject not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/bulk/move', validate(bulkMoveDataSourcesSchema), sourceHandler.bulkMoveDataSources);
+
+/**
+ * @swagger
+ * /data-sources/bulk/tags:
+ *   post:
+ *     summary: Add and remove tags on materials
+ *     description: Tags to add are created on first use. Tags are matched case-insensitively.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *               add:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               remove:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ *       '400':
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/bulk/tags', validate(bulkTagDataSourcesSchema), sourceHandler.bulkTagDataSources);
+
+/**
+ * @swagger
+ * /data-sources/bulk/delete:
+ *   post:
+ *     summary: Delete materials
+ *     description: |
+ *       Removes the materials with their embeddings, versions and stored files. Materials that
+ *       are being processed right now are skipped and reported as failed.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ *       '400':
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/bulk/delete', validate(bulkDataSourcesSchema), sourceHandler.bulkDeleteDataSources);
+
+/**
+ * @swagger
+ * /data-sources/bulk/reprocess:
+ *   post:
+ *     summary: Re-run extraction and embedding for materials
+ *     description: Materials that are already being processed are skipped and reported as failed.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 $ref: '#/components/schemas/BulkDataSourceIds'
+ *     responses:
+ *       '200':
+ *         description: Per-material results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BulkResult'
+ *       '400':
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/bulk/reprocess',
+  validate(bulkDataSourcesSchema),
+  sourceHandler.bulkReprocessDataSources
+);
+
 /**
  * @swagger
  * /data-sources/{id}:
@@ -268,9 +758,10 @@ router.get('/:id', validate(quizIdParamSchema), sourceHandler.getDataSourceById)
 
 /**
  * @swagger
- * /data-sources/{id}:
- *   delete:
- *     summary: Delete a specific data source by ID
+ * /data-sources/{id}/chunks:
+ *   get:
+ *     summary: List the chunks a data source was split into for embedding
+ *     description: Chunks are returned in document order. Useful for debugging answers and highlighting source passages.
  *     tags: [DataSources]
  *     security:
  *       - bearerAuth: []
@@ -280,13 +771,59 @@ router.get('/:id', validate(quizIdParamSchema), sourceHandler.getDataSourceById)
  *         required: true
  *         schema:
  *           type: string
- *           # format: uuid # Prisma uses String
- *         description: ID of the data source to delete
+ *           format: uuid
+ *         description: ID of the data source
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: embeddingStatus
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, EMBEDDED, FAILED]
  *     responses:
- *       '204':
- *         description: Data source deleted successfully (No Content)
- *       '401':
- *         description: Unauthorized (or insufficient permissions)
+ *       '200':
+ *         description: A page of chunks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 chunks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DataSourceChunk'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       '400':
+ *         description: Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '401':
+ *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
@@ -297,6 +834,214 @@ router.get('/:id', validate(quizIdParamSchema), sourceHandler.getDataSourceById)
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/chunks', validate(dataSourceChunksSchema), sourceHandler.getDataSourceChunks);
+
+/**
+ * @swagger
+ * /data-sources/{id}/transcript:
+ *   get:
+ *     summary: Get the timestamped transcript of an audio or video data source
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       '200':
+ *         description: A page of transcript segments, in recording order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 segments:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TranscriptSegment'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       '400':
+ *         description: Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Data source not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/transcript',
+  validate(dataSourceTranscriptSchema),
+  sourceHandler.getDataSourceTranscript
+);
+
+/**
+ * @swagger
+ * /data-sources/{id}:
+ *   patch:
+ *     summary: Update a data source
+ *     description: |
+ *       Updates the name, description, subject, lesson or tags of any data source. The
+ *       `content` of notes created from direct content can also be edited; the note is then
+ *       re-chunked and re-embedded in the background so tutor answers use the new text.
+ *
+ *       Moving a data source to another subject also updates the subject stored with its
+ *       embeddings, so subject-scoped search and chat keep finding it. Setting only `lessonId`
+ *       moves the data source into the lesson's subject; changing only `subjectId` removes it
+ *       from its lesson.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               content:
+ *                 type: string
+ *                 description: New text of the note
+ *               subjectId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               lessonId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Replaces all tags of the data source
+ *     responses:
+ *       '200':
+ *         description: Data source updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 material:
+ *                   $ref: '#/components/schemas/DataSource'
+ *                 reindexing:
+ *                   type: boolean
+ *                   description: Whether the content changed and is being re-indexed
+ *       '400':
+ *         description: |
+ *           Invalid body, content edit of an uploaded file or URL import, or a lesson from a
+ *           different subject
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Data source, subject or lesson not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: The data source is still being processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '503':
+ *         description: The vector store could not be updated; the data source was not moved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch('/:id', validate(updateDataSourceSchema), sourceHandler.updateDataSource);
+
+/**
+ * @swagger
+ * /data-sources/{id}:
+ *   delete:
+ *     summary: Delete a specific data source by ID
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           # format: uuid # Prisma uses String
+ *         description: ID of the data source to delete
+ *     responses:
+ *       '204':
+ *         description: Data source deleted successfully (No Content)
+ *       '401':
+ *         description: Unauthorized (or insufficient permissions)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Data source not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: Material is being processed right now
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       '500':
  *         description: Internal Server Error
  *         content:
@@ -306,4 +1051,356 @@ router.get('/:id', validate(quizIdParamSchema), sourceHandler.getDataSourceById)
  */
 router.delete('/:id', validate(quizIdParamSchema), sourceHandler.deleteDataSource);
 
+/**
+ * @swagger
+ * /data-sources/{id}/reprocess:
+ *   post:
+ *     summary: Queue a data source for re-extraction and re-embedding
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the data source to reprocess
+ *     responses:
+ *       '202':
+ *         description: Reprocessing job queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 jobId:
+ *                   type: string
+ *       '400':
+ *         description: Data source has no uploaded file to reprocess
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '401':
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Data source not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: Data source is already being processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '500':
+ *         description: Internal Server Error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/reprocess', validate(quizIdParamSchema), sourceHandler.reprocessDataSource);
+
+/**
+ * @swagger
+ * /data-sources/{id}/file:
+ *   put:
+ *     summary: Replace the file of an uploaded data source with a new version
+ *     description: |
+ *       Makes the uploaded file the current version and re-indexes the data source in the
+ *       background. The previous file and the text extracted from it remain available through
+ *       the versions endpoints; only the current version is searched.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [document]
+ *             properties:
+ *               document:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       '200':
+ *         description: File replaced, re-indexing queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 material:
+ *                   $ref: '#/components/schemas/DataSource'
+ *       '400':
+ *         description: No file uploaded, or the data source was not created from a file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '404':
+ *         description: Data source not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       '409':
+ *         description: The file is identical to the current version, or the data source is still being processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id/file',
+  upload.single('document'),
+  validate(quizIdParamSchema),
+  sourceHandler.replaceDataSourceFile
+);
+
+/**
+ * @swagger
+ * /data-sources/{id}/versions:
+ *   get:
+ *     summary: List the file versions of a data source, newest first
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       '200':
+ *         description: The current version followed by earlier ones
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 currentVersion:
+ *                   type: integer
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DataSourceVersion'
+ *       '404':
+ *         description: Data source not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+/**
+ * @swagger
+ * /data-sources/{id}/file:
+ *   get:
+ *     summary: Download the file of a data source
+ *     description: |
+ *       Streams the uploaded file from storage. Pass `version` to get the file of an earlier
+ *       version, and `download=true` to receive it as an attachment instead of inline.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       '200':
+ *         description: The file content
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       '404':
+ *         description: Data source, version or file not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/file', validate(dataSourceFileSchema), sourceHandler.getDataSourceFile);
+
+/**
+ * @swagger
+ * /data-sources/{id}/file-url:
+ *   get:
+ *     summary: Get a short-lived signed download URL for the file of a data source
+ *     description: |
+ *       The URL works without authentication until `expiresAt` (SIGNED_URL_TTL_SECONDS,
+ *       15 minutes by default), so it can be used in links and media players. With S3 storage
+ *       it points directly at the bucket.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       '200':
+ *         description: Signed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 url:
+ *                   type: string
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       '404':
+ *         description: Data source, version or file not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/file-url', validate(dataSourceFileSchema), sourceHandler.getDataSourceSignedUrl);
+
+/**
+ * @swagger
+ * /data-sources/{id}/thumbnail:
+ *   get:
+ *     summary: Get the thumbnail of a data source
+ *     description: |
+ *       PDFs (first page) and images get a generated 400x300 WebP thumbnail shortly after
+ *       upload. Until then, and for all other types, an SVG icon for the material type is
+ *       returned. YouTube imports use the video's own thumbnail URL instead.
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       '200':
+ *         description: Thumbnail image
+ *         content:
+ *           image/webp: {}
+ *           image/svg+xml: {}
+ *       '404':
+ *         description: Data source not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/thumbnail', validate(quizIdParamSchema), sourceHandler.getDataSourceThumbnail);
+
+router.get('/:id/versions', validate(quizIdParamSchema), sourceHandler.getDataSourceVersions);
+
+/**
+ * @swagger
+ * /data-sources/{id}/versions/{version}:
+ *   get:
+ *     summary: Get one version of a data source, including its extracted text
+ *     tags: [DataSources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       '200':
+ *         description: The requested version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 version:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/DataSourceVersion'
+ *                     - type: object
+ *                       properties:
+ *                         content:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Text extracted from this version
+ *       '404':
+ *         description: Data source or version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/versions/:version',
+  validate(dataSourceVersionSchema),
+  sourceHandler.getDataSourceVersion
+);
+
 export { router as dataSourceRoutes };
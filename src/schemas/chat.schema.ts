@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const createChatSchema = z.object({
+  body: z.object({
+    title: z.string().trim().min(1, 'Chat title cannot be empty').max(200).optional(),
+    subjectId: z.string().uuid('Invalid Subject ID format').nullable().optional(),
+  }),
+});
+
+export const renameChatSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid Chat ID format'),
+  }),
+  body: z.object({
+    title: z.string().trim().min(1, 'Chat title cannot be empty').max(200),
+  }),
+});
+
+export const sendChatMessageSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid Chat ID format'),
+  }),
+  body: z.object({
+    content: z.string().trim().min(1, 'Message cannot be empty'),
+  }),
+});
+
+export const chatIdParamSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid Chat ID format'),
+  }),
+});
+
+export type CreateChatInput = z.infer<typeof createChatSchema>['body'];
+export type RenameChatInput = z.infer<typeof renameChatSchema>['body'];
+export type SendChatMessageInput = z.infer<typeof sendChatMessageSchema>['body'];
@@ -4,6 +4,9 @@ export const queryInputSchema = z.object({
   body: z.object({
     query: z.string().min(1, 'Query cannot be empty'),
     subjectId: z.string().uuid('Invalid Subject ID format').optional(),
+    mode: z.enum(['vector', 'keyword', 'hybrid']).optional(),
+    topK: z.number().int().min(1).max(20).optional(),
+    rerank: z.boolean().optional(),
   }),
 });
 
@@ -1,16 +1,100 @@
 import { z } from 'zod';
 
+export const QUIZ_QUESTION_TYPES = [
+  'multiple-choice',
+  'true-false',
+  'multi-select',
+  'ordering',
+  'matching',
+  'numeric',
+  'fill-blank',
+  'short-answer',
+  'essay',
+] as const;
+
+/**
+ * Which fields a question needs depends on its type:
+ * - multiple-choice, true-false: options and the correctAnswer among them
+ * - multi-select: options and the correctAnswers among them
+ * - ordering: options, in the correct order
+ * - matching: pairs of a prompt and its match
+ * - numeric: value, optionally with a tolerance and unit
+ * - fill-blank: correctAnswer, optionally with other acceptedAnswers
+ * - short-answer, essay: optionally a model correctAnswer; the explanation is the rubric
+ */
 const QuestionInputSchema = z
   .object({
     text: z.string().min(1, 'Question text cannot be empty'),
-    options: z.array(z.string().min(1)).min(2, 'Must provide at least two options'),
-    correctAnswer: z.string().min(1, 'Correct answer cannot be empty'),
+    type: z.enum(QUIZ_QUESTION_TYPES).default('multiple-choice'),
+    options: z.array(z.string().min(1)).min(2, 'Must provide at least two options').optional(),
+    correctAnswer: z.string().min(1, 'Correct answer cannot be empty').optional(),
+    correctAnswers: z.array(z.string().min(1)).min(1).optional(),
+    pairs: z
+      .array(z.object({ prompt: z.string().min(1), match: z.string().min(1) }))
+      .min(2, 'Must provide at least two pairs')
+      .optional(),
+    value: z.number().optional(),
+    tolerance: z.number().min(0, 'Tolerance cannot be negative').optional(),
+    unit: z.string().min(1).max(50).optional(),
+    acceptedAnswers: z.array(z.string().min(1)).max(20).optional(),
+    typoTolerance: z.number().int().min(0).max(5).nullable().optional(),
+    aiEquivalence: z.boolean().optional(),
     difficulty: z.enum(['Easy', 'Medium', 'Hard']).optional(),
     explanation: z.string().nullable().optional(),
   })
-  .refine((data) => data.options.includes(data.correctAnswer), {
-    message: 'Correct answer must be one of the options',
-    path: ['correctAnswer'],
+  .superRefine((data, ctx) => {
+    const requireField = (
+      field: 'options' | 'correctAnswer' | 'correctAnswers' | 'pairs' | 'value'
+    ) => {
+      if (data[field] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${data.type} questions need ${field}`,
+          path: [field],
+        });
+      }
+    };
+
+    switch (data.type) {
+      case 'multiple-choice':
+      case 'true-false':
+        requireField('options');
+        requireField('correctAnswer');
+        if (data.options && data.correctAnswer && !data.options.includes(data.correctAnswer)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Correct answer must be one of the options',
+            path: ['correctAnswer'],
+          });
+        }
+        break;
+      case 'multi-select':
+        requireField('options');
+        requireField('correctAnswers');
+        if (
+          data.options &&
+          data.correctAnswers?.some((answer) => !data.options?.includes(answer))
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Correct answers must be among the options',
+            path: ['correctAnswers'],
+          });
+        }
+        break;
+      case 'ordering':
+        requireField('options');
+        break;
+      case 'matching':
+        requireField('pairs');
+        break;
+      case 'numeric':
+        requireField('value');
+        break;
+      case 'fill-blank':
+        requireField('correctAnswer');
+        break;
+    }
   });
 
 export const createQuizSchema = z.object({
@@ -44,19 +128,68 @@ export const generateQuizSchema = z.object({
     }),
 });
 
+const QuizAnswerInputSchema = z
+  .object({
+    questionId: z.string().min(1),
+    answerId: z.string().min(1).nullable().optional(),
+    // Options picked for multi-select questions, or arranged for ordering questions
+    answerIds: z.array(z.string().min(1)).max(100).nullable().optional(),
+    // Pairs for matching questions: matchId is the id of the entry of the question's matches picked
+    matches: z
+      .array(z.object({ optionId: z.string().min(1), matchId: z.string().min(1) }))
+      .max(100)
+      .nullable()
+      .optional(),
+    // Typed answers, e.g. to fill-blank, short-answer and essay questions
+    text: z.string().max(10000).nullable().optional(),
+  })
+  .refine((data) => data.answerId || data.answerIds || data.matches || data.text !== undefined, {
+    message: 'Provide an answerId, answerIds, matches or text',
+    path: ['answerId'],
+  });
+
 export const submitQuizAttemptSchema = z.object({
   params: z.object({
     id: z.string().uuid('Invalid Quiz ID format'),
   }),
+  body: z.object({
+    answers: z.array(QuizAnswerInputSchema).min(1, 'Must submit at least one answer'),
+  }),
+});
+
+const quizSessionParams = z.object({
+  id: z.string().uuid('Invalid Quiz ID format'),
+  sessionId: z.string().uuid('Invalid session ID format'),
+});
+
+export const saveQuizSessionAnswersSchema = z.object({
+  params: quizSessionParams,
   body: z.object({
     answers: z
-      .array(
-        z.object({
-          questionId: z.string().min(1),
-          answerId: z.string().min(1, 'Selected answer cannot be empty'),
-        })
-      )
-      .min(1, 'Must submit at least one answer'),
+      .array(QuizAnswerInputSchema)
+      .min(1, 'Must save at least one answer')
+      .max(200, 'Cannot save more than 200 answers at once'),
+  }),
+});
+
+export const submitQuizSessionSchema = z.object({
+  params: quizSessionParams,
+  body: z
+    .object({
+      answers: z.array(QuizAnswerInputSchema).max(200).optional(),
+    })
+    .optional(),
+});
+
+export const overrideQuizAnswerGradeSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid Quiz ID format'),
+    attemptId: z.string().uuid('Invalid attempt ID format'),
+    questionId: z.string().uuid('Invalid question ID format'),
+  }),
+  body: z.object({
+    pointsEarned: z.number().min(0, 'Points cannot be negative'),
+    justification: z.string().max(2000).nullable().optional(),
   }),
 });
 
@@ -69,4 +202,6 @@ export const quizIdParamSchema = z.object({
 export type CreateQuizInput = z.infer<typeof createQuizSchema>['body'];
 export type GenerateQuizInput = z.infer<typeof generateQuizSchema>['body'];
 export type SubmitQuizAttemptInput = z.infer<typeof submitQuizAttemptSchema>['body'];
+export type SaveQuizSessionAnswersInput = z.infer<typeof saveQuizSessionAnswersSchema>['body'];
+export type OverrideQuizAnswerGradeInput = z.infer<typeof overrideQuizAnswerGradeSchema>['body'];
 export type QuizIdParamInput = z.infer<typeof quizIdParamSchema>['params'];
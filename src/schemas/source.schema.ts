@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { DataSourceStatus, DataSourceType } from '@prisma/client';
+
+const DATA_SOURCE_TYPES: string[] = Object.values(DataSourceType);
+const DATA_SOURCE_STATUSES: string[] = Object.values(DataSourceStatus);
+
+const parseListValues = (value: string | string[] | undefined): string[] =>
+  (Array.isArray(value) ? value.join(',') : value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const listParam = z.union([z.string(), z.array(z.string())]);
+
+export const listDataSourcesSchema = z.object({
+  query: z
+    .object({
+      q: z.string().max(200, 'Search cannot exceed 200 characters').optional(),
+      type: listParam.optional(),
+      status: listParam.optional(),
+      subjectId: z
+        .union([z.string().uuid('Invalid subject ID format'), z.literal('none')])
+        .optional(),
+      tags: listParam.optional(),
+      uploadedAfter: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+      uploadedBefore: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+      sort: z.enum(['relevance', 'uploadDate', 'name', 'size']).optional(),
+      order: z.enum(['asc', 'desc']).optional(),
+      limit: z.coerce.number().int().min(1).max(100, 'Limit cannot exceed 100').optional(),
+      cursor: z.string().optional(),
+    })
+    .refine(
+      (query) =>
+        parseListValues(query.type).every((type) => DATA_SOURCE_TYPES.includes(type)) &&
+        parseListValues(query.status).every((status) => DATA_SOURCE_STATUSES.includes(status)),
+      { message: 'Unknown type or status' }
+    ),
+});
+
+export const dataSourceChunksSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid ID format'),
+  }),
+  query: z.object({
+    page: z.coerce.number().int().min(1, 'Page must be at least 1').optional(),
+    limit: z.coerce.number().int().min(1).max(100, 'Limit cannot exceed 100').optional(),
+    embeddingStatus: z.enum(['PENDING', 'EMBEDDED', 'FAILED']).optional(),
+  }),
+});
+
+export const dataSourceTranscriptSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid ID format'),
+  }),
+  query: z.object({
+    page: z.coerce.number().int().min(1, 'Page must be at least 1').optional(),
+    limit: z.coerce.number().int().min(1).max(100, 'Limit cannot exceed 100').optional(),
+  }),
+});
+
+export const dataSourceVersionSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid ID format'),
+    version: z.coerce.number().int().min(1, 'Version must be at least 1'),
+  }),
+});
+
+export const dataSourceFileSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid ID format'),
+  }),
+  query: z.object({
+    version: z.coerce.number().int().min(1, 'Version must be at least 1').optional(),
+    download: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+export type DataSourceChunksQuery = z.infer<typeof dataSourceChunksSchema>['query'];
+
+export const updateDataSourceSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid ID format'),
+  }),
+  body: z
+    .object({
+      name: z.string().trim().min(1, 'Name cannot be empty').max(255).optional(),
+      description: z.string().max(2000).nullable().optional(),
+      content: z.string().trim().min(1, 'Content cannot be empty').optional(),
+      subjectId: z.string().uuid('Invalid subject ID format').nullable().optional(),
+      lessonId: z.string().uuid('Invalid lesson ID format').nullable().optional(),
+      tags: z.array(z.string().trim().min(1, 'Tag names cannot be empty')).max(50).optional(),
+    })
+    .refine((body) => Object.values(body).some((value) => value !== undefined), {
+      message: 'At least one field must be provided',
+    }),
+});
+
+export type UpdateDataSourceInput = z.infer<typeof updateDataSourceSchema>['body'];
+
+/**
+ * Most materials a single bulk request may act on
+ */
+export const MAX_BULK_DATA_SOURCES = 100;
+
+const bulkDataSourceIdsSchema = z
+  .array(z.string().uuid('Invalid ID format'))
+  .min(1, 'At least one material ID is required')
+  .max(MAX_BULK_DATA_SOURCES, `At most ${MAX_BULK_DATA_SOURCES} materials can be changed at once`);
+
+export const bulkDataSourcesSchema = z.object({
+  body: z.object({
+    ids: bulkDataSourceIdsSchema,
+  }),
+});
+
+export const bulkMoveDataSourcesSchema = z.object({
+  body: z.object({
+    ids: bulkDataSourceIdsSchema,
+    subjectId: z.string().uuid('Invalid subject ID format').nullable(),
+  }),
+});
+
+export const bulkTagDataSourcesSchema = z.object({
+  body: z
+    .object({
+      ids: bulkDataSourceIdsSchema,
+      add: z.array(z.string().trim().min(1, 'Tag names cannot be empty')).optional(),
+      remove: z.array(z.string().trim().min(1, 'Tag names cannot be empty')).optional(),
+    })
+    .refine((body) => (body.add?.length || 0) + (body.remove?.length || 0) > 0, {
+      message: 'Provide tags to add or remove',
+    }),
+});
@@ -0,0 +1,78 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+
+export const CHUNK_SIZE = 2000;
+export const CHUNK_OVERLAP = 200;
+
+/**
+ * Extractors separate pages with a form feed, so chunk page numbers can be recovered
+ */
+export const PAGE_BREAK = '\f';
+
+export interface TextChunk {
+  pageContent: string;
+  tokenCount: number;
+  metadata: {
+    chunk_id: number;
+    loc?: { lines: { from: number; to: number } };
+    startOffset: number | null;
+    endOffset: number | null;
+    pageNumber: number | null;
+  };
+}
+
+/**
+ * Rough token count for budgeting prompts (about four characters per token for English text)
+ */
+export const estimateTokenCount = (text: string) => Math.ceil(text.length / 4);
+
+const countPageBreaks = (text: string, end: number) => {
+  let count = 0;
+  let index = text.indexOf(PAGE_BREAK);
+  while (index !== -1 && index < end) {
+    count++;
+    index = text.indexOf(PAGE_BREAK, index + 1);
+  }
+  return count;
+};
+
+/**
+ * Split extracted text into the chunks that are embedded for a data source. Chunk ids are
+ * positional, so splitting the same text again yields the same ids.
+ */
+export const splitIntoChunks = async (text: string): Promise<TextChunk[]> => {
+  const textSplitter = new RecursiveCharacterTextSplitter({
+    chunkSize: CHUNK_SIZE,
+    chunkOverlap: CHUNK_OVERLAP,
+    separators: [PAGE_BREAK, '\n\n', '\n', ' ', ''],
+  });
+  const documents = await textSplitter.createDocuments([text]);
+  const hasPages = text.includes(PAGE_BREAK);
+
+  // Chunks appear in order and overlap the previous chunk by at most CHUNK_OVERLAP
+  // characters, which keeps repeated passages from matching an earlier occurrence
+  let previousStart = -1;
+  let previousEnd = 0;
+  return documents.map((chunk, index) => {
+    let start = text.indexOf(
+      chunk.pageContent,
+      Math.max(previousStart + 1, previousEnd - CHUNK_OVERLAP)
+    );
+    if (start === -1) start = text.indexOf(chunk.pageContent, previousStart + 1);
+    if (start !== -1) {
+      previousStart = start;
+      previousEnd = start + chunk.pageContent.length;
+    }
+
+    return {
+      pageContent: chunk.pageContent,
+      tokenCount: estimateTokenCount(chunk.pageContent),
+      metadata: {
+        chunk_id: index,
+        loc: chunk.metadata.loc,
+        startOffset: start === -1 ? null : start,
+        endOffset: start === -1 ? null : start + chunk.pageContent.length,
+        pageNumber: hasPages && start !== -1 ? countPageBreaks(text, start) + 1 : null,
+      },
+    };
+  });
+};
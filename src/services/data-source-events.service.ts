@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events';
+import { DataSourceStatus } from '@prisma/client';
+
+export interface DataSourceEvent {
+  dataSourceId: string;
+  status: DataSourceStatus;
+  progress: number | null;
+  chunksEmbedded?: number;
+  totalChunks?: number;
+  error?: string;
+}
+
+export type DataSourceEventListener = (event: DataSourceEvent) => void;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const channel = (userId: string) => `user:${userId}`;
+
+/**
+ * Notify this process' subscribers about a status/progress change of one of a user's materials
+ */
+export const publishDataSourceEvent = (userId: string, event: DataSourceEvent) => {
+  emitter.emit(channel(userId), event);
+};
+
+/**
+ * Listen to a user's material events. Returns a function that removes the listener.
+ */
+export const subscribeToDataSourceEvents = (
+  userId: string,
+  listener: DataSourceEventListener
+): (() => void) => {
+  emitter.on(channel(userId), listener);
+  return () => {
+    emitter.off(channel(userId), listener);
+  };
+};
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DataSourceType } from '@prisma/client';
+import db from '../db/db';
+
+/**
+ * SHA-256 of a file's bytes, read as a stream so large recordings are not held in memory
+ */
+export const hashFile = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (data) => hash.update(data))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+
+/**
+ * Find a data source of the user whose current file has the given hash
+ */
+export const findDuplicateDataSource = (userId: string, contentHash: string) =>
+  db.dataSource.findFirst({
+    where: { userId, contentHash },
+    select: { id: true, name: true, type: true, status: true, version: true, uploadDate: true },
+  });
+
+/**
+ * Authenticated download URL of a data source's file, or of one of its earlier versions
+ */
+export const getDataSourceFileUrl = (dataSourceId: string, version?: number) =>
+  `/api/v1/data-sources/${dataSourceId}/file${version ? `?version=${version}` : ''}`;
+
+export interface ReplacementFile {
+  /**
+   * Storage key of the new file
+   */
+  key: string;
+  originalname: string;
+  size: number;
+}
+
+/**
+ * Make a stored file the new current version of a data source. The previous file and its
+ * extracted text are kept as a DataSourceVersion; the caller re-indexes the data source.
+ */
+export const replaceCurrentFile = async (
+  dataSourceId: string,
+  file: ReplacementFile,
+  contentHash: string,
+  type: DataSourceType
+) =>
+  db.$transaction(async (tx) => {
+    const current = await tx.dataSource.findUniqueOrThrow({ where: { id: dataSourceId } });
+
+    await tx.dataSourceVersion.create({
+      data: {
+        dataSourceId,
+        version: current.version,
+        name: current.name,
+        fileType: current.fileType,
+        size: current.size,
+        url: getDataSourceFileUrl(dataSourceId, current.version),
+        filePath: current.filePath,
+        contentHash: current.contentHash,
+        content: current.content,
+        uploadedAt: current.uploadDate,
+      },
+    });
+
+    return tx.dataSource.update({
+      where: { id: dataSourceId },
+      data: {
+        type,
+        fileType: path.extname(file.originalname).replace('.', ''),
+        size: file.size,
+        url: getDataSourceFileUrl(dataSourceId),
+        filePath: file.key,
+        contentHash,
+        version: { increment: 1 },
+        uploadDate: new Date(),
+      },
+    });
+  });
@@ -0,0 +1,120 @@
+import fs from 'fs/promises';
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import { extractTextFromDocument } from './gemini.service';
+import { PAGE_BREAK } from './chunking.service';
+
+const PLAIN_TEXT_EXTENSIONS = ['.txt', '.text', '.md', '.markdown'];
+
+/**
+ * PDFs averaging fewer printable characters per page than this have no usable text layer
+ * (usually scans) and are sent to the LLM for OCR instead
+ */
+const MIN_PDF_CHARS_PER_PAGE = 30;
+
+export type ExtractionMethod = 'plain-text' | 'pdf' | 'docx' | 'llm';
+
+export interface ExtractedDocument {
+  text: string;
+  method: ExtractionMethod;
+  pageCount: number | null;
+}
+
+/**
+ * Rebuild the text of a PDF page from its text items, starting a new line whenever the
+ * vertical position changes (same approach as pdf-parse's default renderer)
+ */
+const renderPdfPage = async (pageData: any): Promise<string> => {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+};
+
+/**
+ * Extract the text layer of a PDF, one page at a time. Pages are joined with PAGE_BREAK so
+ * chunks can be traced back to their page. Returns null for PDFs without a usable text layer.
+ */
+const extractPdfText = async (filePath: string): Promise<ExtractedDocument | null> => {
+  const pages: string[] = [];
+  const result = await pdfParse(await fs.readFile(filePath), {
+    pagerender: async (pageData: any) => {
+      const text = await renderPdfPage(pageData);
+      pages.push(text.trim());
+      return text;
+    },
+  });
+
+  const printableChars = pages.join('').replace(/\s/g, '').length;
+  if (pages.length === 0 || printableChars / pages.length < MIN_PDF_CHARS_PER_PAGE) {
+    return null;
+  }
+
+  return { text: pages.join(PAGE_BREAK), method: 'pdf', pageCount: result.numpages };
+};
+
+const extractDocxText = async (filePath: string): Promise<ExtractedDocument> => {
+  const { value } = await mammoth.extractRawText({ path: filePath });
+  return { text: value.trim(), method: 'docx', pageCount: null };
+};
+
+const extractPlainText = async (filePath: string): Promise<ExtractedDocument> => {
+  const text = await fs.readFile(filePath, 'utf8');
+  return { text: text.replace(/^\uFEFF/, ''), method: 'plain-text', pageCount: null };
+};
+
+const extractWithLLM = async (filePath: string): Promise<ExtractedDocument> => ({
+  text: await extractTextFromDocument(filePath),
+  method: 'llm',
+  pageCount: null,
+});
+
+/**
+ * Extract the text of an uploaded file. Text-layer PDFs, DOCX, plain text and markdown are
+ * read locally; scanned PDFs, images and anything the local extractors cannot read fall
+ * back to the LLM.
+ */
+export const extractDocumentText = async (filePath: string): Promise<ExtractedDocument> => {
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (PLAIN_TEXT_EXTENSIONS.includes(extension)) {
+      return await extractPlainText(filePath);
+    }
+
+    if (extension === '.docx') {
+      const document = await extractDocxText(filePath);
+      if (document.text) return document;
+    }
+
+    if (extension === '.pdf') {
+      const document = await extractPdfText(filePath);
+      if (document) {
+        console.log(
+          `[DocumentExtractionService] Extracted ${document.pageCount} PDF page(s) locally: ${filePath}`
+        );
+        return document;
+      }
+      console.log(
+        `[DocumentExtractionService] PDF has no text layer, falling back to OCR: ${filePath}`
+      );
+    }
+  } catch (error) {
+    console.warn(
+      `[DocumentExtractionService] Local extraction failed for ${filePath}, falling back to the LLM:`,
+      error
+    );
+  }
+
+  return extractWithLLM(filePath);
+};
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import db from '../db/db';
+import { getEmbeddingDimension, getLLM } from './llm';
+
+const EMBEDDING_TASK_TYPE = 'QUESTION_ANSWERING';
+
+/**
+ * Texts sent to the embedding model per request
+ */
+export const EMBEDDING_BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 16;
+
+/**
+ * Embedding requests in flight at once
+ */
+export const EMBEDDING_CONCURRENCY = Number(process.env.EMBEDDING_CONCURRENCY) || 4;
+
+/**
+ * Run fn over items with at most `limit` calls in flight, preserving input order in the result
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+};
+
+const cacheKey = (model: string, text: string) =>
+  crypto.createHash('sha256').update(`${model}\0${EMBEDDING_TASK_TYPE}\0${text}`).digest('hex');
+
+const readCache = async (hashes: string[]): Promise<Map<string, number[]>> => {
+  try {
+    const rows = await db.embeddingCache.findMany({
+      where: { hash: { in: hashes } },
+      select: { hash: true, embedding: true },
+    });
+    return new Map(rows.map((row) => [row.hash, row.embedding]));
+  } catch (error) {
+    console.error('[EmbeddingService] Error reading embedding cache:', error);
+    return new Map();
+  }
+};
+
+const writeCache = async (model: string, entries: { hash: string; embedding: number[] }[]) => {
+  if (entries.length === 0) return;
+  try {
+    await db.embeddingCache.createMany({
+      data: entries.map((entry) => ({ ...entry, model })),
+      skipDuplicates: true,
+    });
+  } catch (error) {
+    console.error('[EmbeddingService] Error writing embedding cache:', error);
+  }
+};
+
+/**
+ * Embed each text, preserving input order. Cached embeddings are reused; the rest are
+ * requested in batches of EMBEDDING_BATCH_SIZE with up to EMBEDDING_CONCURRENCY requests
+ * in flight, then cached.
+ */
+export async function getEmbeddings(texts: string[], useCache = true): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const llm = getLLM();
+  // The same model returns vectors of another length when EMBEDDING_DIMENSION changes
+  const model = `${llm.name}:${llm.embeddingModel}:${getEmbeddingDimension()}`;
+  const hashes = texts.map((text) => cacheKey(model, text));
+  const cached = useCache ? await readCache(Array.from(new Set(hashes))) : new Map();
+
+  // Identical texts only need to be embedded once
+  const toGenerate = new Map<string, string>();
+  hashes.forEach((hash, index) => {
+    if (!cached.has(hash) && !toGenerate.has(hash)) toGenerate.set(hash, texts[index]);
+  });
+
+  console.log(
+    `[EmbeddingService] Embedding ${texts.length} text(s): ${toGenerate.size} to generate, the rest cached.`
+  );
+
+  const batches = chunkArray(Array.from(toGenerate.entries()), EMBEDDING_BATCH_SIZE);
+  const generated = await mapWithConcurrency(batches, EMBEDDING_CONCURRENCY, async (batch) => {
+    const embeddings = await llm.embed(
+      batch.map(([, text]) => text),
+      { taskType: EMBEDDING_TASK_TYPE }
+    );
+    if (embeddings.length !== batch.length) {
+      throw new Error(
+        `Embedding model returned ${embeddings.length} embeddings for ${batch.length} texts`
+      );
+    }
+    return batch.map(([hash], position) => ({ hash, embedding: embeddings[position] }));
+  });
+
+  const newEntries = generated.reduce(
+    (all, entries) => all.concat(entries),
+    [] as { hash: string; embedding: number[] }[]
+  );
+  for (const entry of newEntries) {
+    cached.set(entry.hash, entry.embedding);
+  }
+  if (useCache) await writeCache(model, newEntries);
+
+  return hashes.map((hash) => cached.get(hash) as number[]);
+}
+
+/**
+ * Embed a single search query. Queries are rarely repeated verbatim, so they are not cached.
+ */
+export async function getQueryEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await getEmbeddings([text], false);
+  return embedding;
+}
@@ -1,6 +1,6 @@
-import { VertexAI } from '@google-cloud/vertexai';
 import fs from 'fs/promises';
 import mime from 'mime-types';
+import { getLLM, parseJSONResponse } from './llm';
 interface Block {
   id: string;
   type: string;
@@ -25,20 +25,6 @@ interface LessonContent {
   learningObjectives: string[];
   pages: Page[];
 }
-const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'learnability-project';
-const LOCATION = 'us-central1';
-const MODEL_NAME = 'gemini-2.5-flash';
-
-let vertexAI: VertexAI;
-let generativeModel: any;
-
-try {
-  vertexAI = new VertexAI({ project: PROJECT_ID, location: LOCATION });
-  generativeModel = vertexAI.getGenerativeModel({ model: MODEL_NAME });
-} catch (error) {
-  console.error('Error initializing Vertex AI client:', error);
-}
-
 /**
  * Convert file to base64 for the generative model
  */
@@ -62,39 +48,18 @@ async function fileToGenerativePart(filePath: string) {
 export const extractTextFromDocument = async (filePath: string): Promise<string> => {
   console.log(`[GeminiService] Extracting text from document: ${filePath}`);
   try {
-    if (!generativeModel) {
-      console.error('[GeminiService] Gemini model not initialized during text extraction.');
-      throw new Error('Gemini model not initialized');
-    }
-
     const filePart = await fileToGenerativePart(filePath);
 
     const instructionText = `Your task is to read the data from the given file, extract all the informations and write it in a structured format, if there any images`;
 
     const promptParts = [{ text: instructionText }, filePart, { text: 'output' }];
 
-    const result = await generativeModel.generateContent({
-      contents: [{ role: 'user', parts: promptParts }],
-      generationConfig: {
-        maxOutputTokens: 8192,
-        temperature: 1,
-        topP: 0.95,
-
-        responseModalities: ['TEXT'],
-      },
+    const extractedText = await getLLM('extraction').generateText(promptParts, {
+      maxOutputTokens: 8192,
+      temperature: 1,
+      topP: 0.95,
     });
 
-    const response = result.response;
-
-    if (!response || !response.candidates || response.candidates.length === 0) {
-      throw new Error('No response candidates returned');
-    }
-
-    let extractedText = '';
-    if (response.candidates[0].content) {
-      extractedText = response.candidates[0].content.parts[0].text;
-    }
-
     if (!extractedText) {
       console.warn(
         `[GeminiService] No text was extracted from the response candidate for file: ${filePath}`
@@ -128,39 +93,6 @@ export const extractTextFromPDF = async (filePath: string): Promise<string> => {
   return extractTextFromDocument(filePath);
 };
 
-export async function getEmbeddings(texts: string) {
-  console.log(
-    `[GeminiService] Generating embeddings for ${texts.split(';').length} text segments.`
-  );
-  const project = PROJECT_ID;
-  const model = 'text-embedding-005';
-  const task = 'QUESTION_ANSWERING';
-  const dimensionality = 0;
-  const apiEndpoint = 'us-central1-aiplatform.googleapis.com';
-  const aiplatform = require('@google-cloud/aiplatform');
-  const { PredictionServiceClient } = aiplatform.v1;
-  const { helpers } = aiplatform;
-  const clientOptions = { apiEndpoint: apiEndpoint };
-  const location = 'us-central1';
-  const endpoint = `projects/${project}/locations/${location}/publishers/google/models/${model}`;
-
-  const instances = texts.split(';').map((e) => helpers.toValue({ content: e, task_type: task }));
-  const parameters = helpers.toValue(
-    dimensionality > 0 ? { outputDimensionality: dimensionality } : {}
-  );
-  const request = { endpoint, instances, parameters };
-  const client = new PredictionServiceClient(clientOptions);
-  const [response] = await client.predict(request);
-  const predictions = response.predictions;
-  const embeddings = predictions.map((p: any) => {
-    const embeddingsProto = p.structValue.fields.embeddings;
-    const valuesProto = embeddingsProto.structValue.fields.values;
-    return valuesProto.listValue.values.map((v: any) => v.numberValue);
-  });
-  console.log(`[GeminiService] Successfully generated ${embeddings.length} embedding(s).`);
-  return embeddings[0];
-}
-
 /**
  * Generate detailed content for a lesson using Gemini
  * @param lessonId The ID of the lesson
@@ -179,13 +111,6 @@ export const generateLessonContentSpecific = async (
     `[GeminiService] Generating specific lesson content for lesson: ${lessonId}, title: ${title}, language: ${targetLanguage}`
   );
   try {
-    if (!generativeModel) {
-      console.error(
-        '[GeminiService] Gemini model not initialized during specific lesson generation.'
-      );
-      throw new Error('Gemini model not initialized');
-    }
-
     const systemPrompt = `
     You are an expert educational content creator specializing in creating detailed, engaging lesson content.
     Generate a complete lesson content structure based on the title and description provided.
@@ -239,34 +164,12 @@ export const generateLessonContentSpecific = async (
     Ensure all generated text (titles, descriptions, content within blocks, quiz questions, options, explanations, etc.) is in ${targetLanguage}.
     `;
 
-    const result = await generativeModel.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              text: systemPrompt,
-            },
-          ],
-        },
-      ],
-      generationConfig: {
-        maxOutputTokens: 8192,
-        temperature: 0.7,
-        topP: 0.95,
-        responseMimeType: 'application/json',
-      },
+    const lessonContent = await getLLM('lesson').generateJSON(systemPrompt, {
+      maxOutputTokens: 8192,
+      temperature: 0.7,
+      topP: 0.95,
     });
 
-    const response = result.response;
-
-    if (!response || !response.candidates || response.candidates.length === 0) {
-      throw new Error('No response candidates returned');
-    }
-
-    const responseText = response.candidates[0].content.parts[0].text;
-    const lessonContent = JSON.parse(responseText);
-
     console.log(
       `[GeminiService] Successfully generated specific lesson content for lesson: ${lessonId}`
     );
@@ -454,9 +357,7 @@ export const generateFullLessonContent = async (
   description: string,
   maxPages: number = 5
 ): Promise<LessonContent> => {
-  if (!generativeModel) {
-    throw new Error('Gemini model not initialized');
-  }
+  const llm = getLLM('lesson');
 
   let lessonContent: LessonContent = {
     id: lessonId,
@@ -489,23 +390,11 @@ Description: "${description}"
 `;
 
   try {
-    const initialResult = await generativeModel.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: initialPrompt }],
-        },
-      ],
-      generationConfig: {
-        maxOutputTokens: 512,
-        temperature: 0.7,
-        topP: 0.95,
-        responseMimeType: 'application/json',
-      },
+    const initialJson = await llm.generateJSON(initialPrompt, {
+      maxOutputTokens: 512,
+      temperature: 0.7,
+      topP: 0.95,
     });
-
-    const initialText = initialResult.response.candidates[0].content.parts[0].text.trim();
-    const initialJson = JSON.parse(initialText);
     lessonContent.totalEstimatedTime = initialJson.totalEstimatedTime;
     lessonContent.learningObjectives = initialJson.learningObjectives;
   } catch (error) {
@@ -561,26 +450,14 @@ Generate page ${pageIndex} as:
 `;
 
     try {
-      const result = await generativeModel.generateContent({
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: pagePrompt }],
-          },
-        ],
-        generationConfig: {
-          maxOutputTokens: 2048,
-          temperature: 0.7,
-          topP: 0.95,
-          responseMimeType: 'application/json',
-        },
+      const parsed = await llm.generateJSON(pagePrompt, {
+        maxOutputTokens: 2048,
+        temperature: 0.7,
+        topP: 0.95,
       });
+      console.log(JSON.stringify(parsed));
 
-      const responseText = result.response.candidates[0].content.parts[0].text.trim();
-      console.log(responseText);
-      
       // Check if we're done - the model might return a JSON object with a done flag
-      const parsed = JSON.parse(responseText);
       if (parsed.done === true || parsed.status === 'DONE') {
         done = true;
         break;
@@ -633,13 +510,6 @@ export const generateLessonContent = async (
     `[GeminiService] Generating lesson content from syllabus: ${syllabusPath} for subject: ${subjectId}`
   );
   try {
-    if (!generativeModel) {
-      console.error(
-        '[GeminiService] Gemini model not initialized during syllabus lesson generation.'
-      );
-      throw new Error('Gemini model not initialized');
-    }
-
     const filePart = await fileToGenerativePart(syllabusPath);
 
     const systemPrompt = `
@@ -677,25 +547,12 @@ export const generateLessonContent = async (
       filePart,
     ];
 
-    const result = await generativeModel.generateContent({
-      contents: [{ role: 'user', parts: promptParts }],
-      generationConfig: {
-        maxOutputTokens: 8192,
-        temperature: 0.7,
-        topP: 0.95,
-        responseMimeType: 'application/json',
-      },
+    const lessons = await getLLM('lesson').generateJSON(promptParts, {
+      maxOutputTokens: 8192,
+      temperature: 0.7,
+      topP: 0.95,
     });
 
-    const response = result.response;
-
-    if (!response || !response.candidates || response.candidates.length === 0) {
-      throw new Error('No response candidates returned');
-    }
-
-    const responseText = response.candidates[0].content.parts[0].text;
-    const lessons = JSON.parse(responseText);
-
     console.log(
       `[GeminiService] Successfully generated ${lessons.length} lessons from syllabus: ${syllabusPath}`
     );
@@ -724,65 +581,26 @@ export const translateTextMap = async (
       textsToTranslate
     ).join(', ')}`
   );
-  if (!generativeModel) {
-    console.error('[GeminiService] Gemini model not initialized during text map translation.');
-    throw new Error('Gemini model not initialized');
-  }
-
   const inputText = JSON.stringify(textsToTranslate, null, 2);
 
   // Prepare a more detailed prompt for translation
   const systemPrompt = `You are an expert language translator.\nYour task is to translate the values of the provided JSON object from ${sourceLanguageCode} to ${targetLanguageCode}.\n\nIMPORTANT RULES:\n1.  Translate ONLY the string values of the JSON object.\n2.  Keep ALL JSON keys exactly as they are in the input.\n3.  The output MUST be a single, valid JSON object.\n4.  Do NOT include any markdown, code fences (like \`\`\`json), comments, or any explanatory text outside the JSON object itself.\n5.  Ensure the output JSON is minified (no unnecessary whitespace or newlines).\n6.  If a value cannot be meaningfully translated (e.g., it\'s a placeholder like "{{name}}"), keep the original value.\n\nInput JSON object to translate:\n${inputText}\n\nTranslated JSON object in ${targetLanguageCode}:\n`;
 
   try {
-    const result = await generativeModel.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: systemPrompt }],
-        },
-      ],
-      generationConfig: {
-        // Adjust generationConfig as needed for translation tasks
-        maxOutputTokens: 8192, // Ensure this is enough for your largest JSON
-        temperature: 0.3,      // Lower temperature for more deterministic translation
-        topP: 0.95,
-        // responseMimeType: "application/json", // If supported and reliable for this model version
-      },
+    // Lower temperature for more deterministic translation
+    const responseText = await getLLM('translation').generateText(systemPrompt, {
+      maxOutputTokens: 8192, // Ensure this is enough for your largest JSON
+      temperature: 0.3,
+      topP: 0.95,
     });
 
-    const response = result.response;
-
-    if (!response || !response.candidates || response.candidates.length === 0 || !response.candidates[0].content || !response.candidates[0].content.parts || !response.candidates[0].content.parts[0].text) {
-      console.error('[GeminiService] Invalid or empty response structure from Gemini API:', JSON.stringify(response, null, 2));
-      throw new Error('Invalid or empty response from Gemini API during translation.');
+    if (!responseText) {
+      throw new Error('Invalid or empty response from the model during translation.');
     }
+    console.log('[GeminiService] Raw model response:\n', responseText);
 
-    let responseText = response.candidates[0].content.parts[0].text.trim();
-    console.log('[GeminiService] Raw Gemini Response:\n', responseText);
-
-    // Attempt to clean the response to ensure it's valid JSON
-    // Remove potential markdown and ensure it starts with { and ends with }
-    if (responseText.startsWith('```json')) {
-      responseText = responseText.substring(7);
-    }
-    if (responseText.endsWith('```')) {
-      responseText = responseText.substring(0, responseText.length - 3);
-    }
-    responseText = responseText.trim();
-
-    // Sometimes the model might still wrap the JSON or add minor text, so we try to find the JSON block
-    let jsonStart = responseText.indexOf('{');
-    let jsonEnd = responseText.lastIndexOf('}') + 1;
-
-    if (jsonStart === -1 || jsonEnd === 0) {
-      console.error('[GeminiService] Could not find valid JSON object in Gemini response. Response was:', responseText);
-      throw new Error('Could not find valid JSON object in Gemini response.');
-    }
-
-    const jsonStr = responseText.substring(jsonStart, jsonEnd);
-    
-    const translatedData = JSON.parse(jsonStr);
+    // The model may wrap the JSON in markdown or add minor text around it
+    const translatedData = parseJSONResponse<Record<string, string>>(responseText);
 
     console.log(
       `[GeminiService] Successfully translated texts to ${targetLanguageCode}. Output keys: ${Object.keys(
@@ -0,0 +1,329 @@
+import { ChunkEmbeddingStatus, DataSourceStatus, DataSourceType, JobStatus } from '@prisma/client';
+import db from '../db/db';
+import { extractDocumentText } from './document-extraction.service';
+import { insertEmbeddings, deleteEmbeddingsByDataSource } from './vector.service';
+import { splitIntoChunks } from './chunking.service';
+import { extractWebsiteContent, extractYouTubeTranscript } from './web-extraction.service';
+import { getChunkTimeRange, TimedSegment, transcribeMedia } from './transcription.service';
+import { enqueueJob, JobContext, registerJobHandler } from './job-queue.service';
+import { publishDataSourceEvent } from './data-source-events.service';
+import { withLocalFile } from './storage';
+
+export const INGEST_DATA_SOURCE_JOB = 'ingest-data-source';
+
+export interface IngestDataSourcePayload {
+  dataSourceId: string;
+}
+
+/**
+ * Progress checkpoints written to DataSource.progress for each stage
+ */
+const PROGRESS = {
+  STARTED: 5,
+  EXTRACTED: 40,
+  CHUNKED: 50,
+  EMBEDDED: 95,
+  COMPLETED: 100,
+};
+
+const setProgress = async (
+  dataSourceId: string,
+  userId: string,
+  progress: number,
+  chunks: { chunksEmbedded?: number; totalChunks?: number } = {}
+) => {
+  await db.dataSource.update({
+    where: { id: dataSourceId },
+    data: { progress, status: DataSourceStatus.PROCESSING },
+  });
+  publishDataSourceEvent(userId, {
+    dataSourceId,
+    status: DataSourceStatus.PROCESSING,
+    progress,
+    ...chunks,
+  });
+};
+
+interface IngestibleSource {
+  type: DataSourceType;
+  filePath: string | null;
+  sourceUrl: string | null;
+  content: string | null;
+}
+
+const isUrlImport = (dataSource: IngestibleSource) =>
+  !!dataSource.sourceUrl &&
+  (dataSource.type === DataSourceType.WEBSITE || dataSource.type === DataSourceType.YOUTUBE);
+
+/**
+ * Whether a data source's text was entered directly (e.g. pasted notes) rather than extracted
+ * from a file or URL. Only these can have their content edited.
+ */
+export const isDirectContentSource = (dataSource: IngestibleSource) =>
+  !dataSource.filePath && !isUrlImport(dataSource);
+
+/**
+ * Whether a data source has something the ingestion pipeline can read: an uploaded file,
+ * the URL of a website or YouTube video, or directly entered content
+ */
+export const hasIngestibleSource = (dataSource: IngestibleSource) =>
+  !!dataSource.filePath ||
+  isUrlImport(dataSource) ||
+  (isDirectContentSource(dataSource) && !!dataSource.content?.trim());
+
+interface SourceText {
+  text: string;
+  title: string | null;
+  /**
+   * Timestamped transcript of audio and video sources
+   */
+  segments?: TimedSegment[];
+}
+
+/**
+ * Get the text of a data source, along with a title when the source provides one
+ */
+const extractSourceText = async (dataSource: IngestibleSource): Promise<SourceText> => {
+  if (
+    dataSource.filePath &&
+    (dataSource.type === DataSourceType.AUDIO || dataSource.type === DataSourceType.VIDEO)
+  ) {
+    const { text, segments } = await withLocalFile(dataSource.filePath, transcribeMedia);
+    return { text, title: null, segments };
+  }
+
+  if (dataSource.filePath) {
+    const { text } = await withLocalFile(dataSource.filePath, extractDocumentText);
+    return { text, title: null };
+  }
+
+  if (isUrlImport(dataSource)) {
+    const url = dataSource.sourceUrl as string;
+    return dataSource.type === DataSourceType.YOUTUBE
+      ? extractYouTubeTranscript(url)
+      : extractWebsiteContent(url);
+  }
+
+  if (dataSource.content?.trim()) {
+    return { text: dataSource.content, title: null };
+  }
+
+  throw new Error('Data source has no file, URL or content to process');
+};
+
+/**
+ * Extract, chunk and embed a data source. Safe to re-run: existing embeddings are replaced.
+ */
+const processDataSource = async ({ payload, heartbeat }: JobContext<IngestDataSourcePayload>) => {
+  const { dataSourceId } = payload;
+
+  const dataSource = await db.dataSource.findUnique({
+    where: { id: dataSourceId },
+    select: {
+      userId: true,
+      subjectId: true,
+      filePath: true,
+      name: true,
+      type: true,
+      sourceUrl: true,
+      content: true,
+    },
+  });
+
+  if (!dataSource) {
+    console.warn(`[IngestionService] Data source ${dataSourceId} no longer exists, skipping.`);
+    return;
+  }
+
+  const { userId } = dataSource;
+  await setProgress(dataSourceId, userId, PROGRESS.STARTED);
+
+  const { text: extractedText, title, segments } = await extractSourceText(dataSource);
+  await setProgress(dataSourceId, userId, PROGRESS.EXTRACTED);
+  await heartbeat();
+
+  // URL imports are named after their URL until the page or video title is known
+  if (title && dataSource.name === dataSource.sourceUrl) {
+    await db.dataSource.update({ where: { id: dataSourceId }, data: { name: title } });
+  }
+
+  const output = await splitIntoChunks(extractedText);
+  await db.$transaction([
+    db.dataSourceChunk.deleteMany({ where: { dataSourceId } }),
+    db.dataSourceChunk.createMany({
+      data: output.map((chunk) => {
+        const timeRange = segments
+          ? getChunkTimeRange(segments, chunk.metadata.startOffset, chunk.metadata.endOffset)
+          : null;
+        return {
+          dataSourceId,
+          order: chunk.metadata.chunk_id,
+          text: chunk.pageContent,
+          startOffset: chunk.metadata.startOffset,
+          endOffset: chunk.metadata.endOffset,
+          pageNumber: chunk.metadata.pageNumber,
+          tokenCount: chunk.tokenCount,
+          startTime: timeRange?.startTime ?? null,
+          endTime: timeRange?.endTime ?? null,
+        };
+      }),
+    }),
+    db.transcriptSegment.deleteMany({ where: { dataSourceId } }),
+    db.transcriptSegment.createMany({
+      data: (segments || []).map((segment, order) => ({
+        dataSourceId,
+        order,
+        startTime: segment.start,
+        endTime: segment.end,
+        text: segment.text,
+      })),
+    }),
+  ]);
+  await setProgress(dataSourceId, userId, PROGRESS.CHUNKED, {
+    chunksEmbedded: 0,
+    totalChunks: output.length,
+  });
+  await heartbeat();
+
+  await deleteEmbeddingsByDataSource(dataSourceId);
+
+  let lastProgress = PROGRESS.CHUNKED;
+  await insertEmbeddings(
+    output,
+    userId,
+    {
+      subjectId: dataSource.subjectId || undefined,
+      dataSourceId,
+    },
+    async (inserted, total, batch) => {
+      await db.dataSourceChunk.updateMany({
+        where: {
+          dataSourceId,
+          order: { in: batch.map((chunk) => chunk.metadata.chunk_id) },
+        },
+        data: { embeddingStatus: ChunkEmbeddingStatus.EMBEDDED },
+      });
+
+      const progress =
+        PROGRESS.CHUNKED + Math.floor(((PROGRESS.EMBEDDED - PROGRESS.CHUNKED) * inserted) / total);
+      if (progress === lastProgress) {
+        publishDataSourceEvent(userId, {
+          dataSourceId,
+          status: DataSourceStatus.PROCESSING,
+          progress,
+          chunksEmbedded: inserted,
+          totalChunks: total,
+        });
+        return;
+      }
+
+      lastProgress = progress;
+      await setProgress(dataSourceId, userId, progress, {
+        chunksEmbedded: inserted,
+        totalChunks: total,
+      });
+      await heartbeat();
+    }
+  );
+
+  // The data source may have been deleted while its embeddings were being written
+  const stillExists = await db.dataSource.count({ where: { id: dataSourceId } });
+  if (!stillExists) {
+    await deleteEmbeddingsByDataSource(dataSourceId);
+    console.warn(
+      `[IngestionService] Data source ${dataSourceId} was deleted during processing, removed its embeddings.`
+    );
+    return;
+  }
+
+  await db.dataSource.update({
+    where: { id: dataSourceId },
+    data: {
+      content: extractedText,
+      status: DataSourceStatus.COMPLETED,
+      progress: PROGRESS.COMPLETED,
+    },
+  });
+  publishDataSourceEvent(userId, {
+    dataSourceId,
+    status: DataSourceStatus.COMPLETED,
+    progress: PROGRESS.COMPLETED,
+    chunksEmbedded: output.length,
+    totalChunks: output.length,
+  });
+
+  console.log(`[IngestionService] Finished processing ${dataSource.name} (${dataSourceId})`);
+};
+
+registerJobHandler<IngestDataSourcePayload>(INGEST_DATA_SOURCE_JOB, {
+  run: processDataSource,
+  onFailed: async ({ payload }, error) => {
+    const dataSource = await db.dataSource.findUnique({
+      where: { id: payload.dataSourceId },
+      select: { userId: true, progress: true },
+    });
+    if (!dataSource) return;
+
+    await db.dataSource.update({
+      where: { id: payload.dataSourceId },
+      data: { status: DataSourceStatus.ERROR },
+    });
+    await db.dataSourceChunk.updateMany({
+      where: {
+        dataSourceId: payload.dataSourceId,
+        embeddingStatus: ChunkEmbeddingStatus.PENDING,
+      },
+      data: { embeddingStatus: ChunkEmbeddingStatus.FAILED },
+    });
+    publishDataSourceEvent(dataSource.userId, {
+      dataSourceId: payload.dataSourceId,
+      status: DataSourceStatus.ERROR,
+      progress: dataSource.progress,
+      error: error.message,
+    });
+  },
+});
+
+/**
+ * Queue a data source for (re)processing
+ */
+export const enqueueDataSourceIngestion = async (dataSourceId: string) => {
+  const dataSource = await db.dataSource.update({
+    where: { id: dataSourceId },
+    data: { status: DataSourceStatus.PROCESSING, progress: 0 },
+  });
+  publishDataSourceEvent(dataSource.userId, {
+    dataSourceId,
+    status: DataSourceStatus.PROCESSING,
+    progress: 0,
+  });
+
+  return enqueueJob(INGEST_DATA_SOURCE_JOB, { dataSourceId }, { dataSourceId });
+};
+
+/**
+ * Whether a data source already has a pending or running ingestion job
+ */
+export const hasActiveIngestionJob = async (dataSourceId: string): Promise<boolean> => {
+  const activeJob = await db.job.findFirst({
+    where: {
+      dataSourceId,
+      type: INGEST_DATA_SOURCE_JOB,
+      status: { in: [JobStatus.PENDING, JobStatus.RUNNING] },
+    },
+    select: { id: true },
+  });
+  return !!activeJob;
+};
+
+/**
+ * Whether a worker is processing a data source right now. Pending jobs are deleted along with
+ * their data source, so only running ones get in the way of deleting it.
+ */
+export const isIngestionRunning = async (dataSourceId: string): Promise<boolean> => {
+  const runningJob = await db.job.findFirst({
+    where: { dataSourceId, type: INGEST_DATA_SOURCE_JOB, status: JobStatus.RUNNING },
+    select: { id: true },
+  });
+  return !!runningJob;
+};
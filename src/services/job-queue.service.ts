@@ -0,0 +1,259 @@
+import os from 'os';
+import { Job, JobStatus, Prisma } from '@prisma/client';
+import db from '../db/db';
+
+export interface JobContext<TPayload = any> {
+  job: Job;
+  payload: TPayload;
+  /**
+   * Refresh the job lock so long-running jobs are not considered stale. The worker also does
+   * this on a timer for as long as the job runs.
+   */
+  heartbeat: () => Promise<void>;
+}
+
+export interface JobHandler<TPayload = any> {
+  run: (context: JobContext<TPayload>) => Promise<void>;
+  /**
+   * Called once a job has exhausted all of its attempts
+   */
+  onFailed?: (context: JobContext<TPayload>, error: Error) => Promise<void>;
+}
+
+export interface JobError {
+  attempt: number;
+  message: string;
+  failedAt: string;
+}
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2');
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || `${10 * 60 * 1000}`);
+const HEARTBEAT_INTERVAL_MS = Math.floor(LOCK_TIMEOUT_MS / 3);
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+const handlers = new Map<string, JobHandler>();
+let running = 0;
+let pollTimer: NodeJS.Timeout | null = null;
+let started = false;
+let polling = false;
+
+/**
+ * Register the handler for a job type. Must be called before the worker picks up jobs of that type.
+ */
+export const registerJobHandler = <TPayload = any>(type: string, handler: JobHandler<TPayload>) => {
+  handlers.set(type, handler);
+};
+
+/**
+ * Persist a job so it survives restarts. It will be picked up by any running worker.
+ */
+export const enqueueJob = async (
+  type: string,
+  payload: Prisma.InputJsonValue,
+  options: { dataSourceId?: string; maxAttempts?: number; runAt?: Date } = {}
+): Promise<Job> => {
+  const job = await db.job.create({
+    data: {
+      type,
+      payload,
+      dataSourceId: options.dataSourceId,
+      maxAttempts: options.maxAttempts,
+      runAt: options.runAt,
+    },
+  });
+  console.log(`[JobQueue] Enqueued ${type} job ${job.id}`);
+  wakeWorker();
+  return job;
+};
+
+/**
+ * Exponential backoff between attempts, capped at BACKOFF_MAX_MS
+ */
+export const getRetryDelay = (attempt: number): number =>
+  Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempt - 1, 0), BACKOFF_MAX_MS);
+
+/**
+ * Atomically claim the next due job. SKIP LOCKED lets several app instances share the table.
+ */
+const claimNextJob = async (): Promise<Job | null> => {
+  const types = Array.from(handlers.keys());
+  if (types.length === 0) return null;
+
+  const jobs = await db.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${WORKER_ID},
+        "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW() AND "type" IN (${Prisma.join(types)})
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+
+  return jobs[0] || null;
+};
+
+/**
+ * Put jobs whose worker died mid-run (e.g. the process restarted) back in the queue
+ */
+export const requeueStaleJobs = async (): Promise<number> => {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const result = await db.job.updateMany({
+    where: { status: JobStatus.RUNNING, lockedAt: { lt: staleBefore } },
+    data: { status: JobStatus.PENDING, lockedAt: null, lockedBy: null },
+  });
+
+  if (result.count > 0) {
+    console.log(`[JobQueue] Requeued ${result.count} stale job(s)`);
+  }
+  return result.count;
+};
+
+/**
+ * Run a handler, refreshing the job lock on a timer meanwhile. A single step of a job (an OCR
+ * pass, a transcription, a slow download) can take longer than the lock timeout, and the job
+ * would then be handed to another worker while this one is still running it.
+ */
+const runWithHeartbeat = async (handler: JobHandler, context: JobContext) => {
+  const timer = setInterval(() => {
+    context
+      .heartbeat()
+      .catch((error) =>
+        console.error(`[JobQueue] Error refreshing lock of job ${context.job.id}:`, error)
+      );
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await handler.run(context);
+  } finally {
+    clearInterval(timer);
+  }
+};
+
+const runJob = async (job: Job) => {
+  const handler = handlers.get(job.type);
+  const context: JobContext = {
+    job,
+    payload: job.payload,
+    heartbeat: async () => {
+      await db.job.update({ where: { id: job.id }, data: { lockedAt: new Date() } });
+    },
+  };
+
+  if (!handler) {
+    console.error(`[JobQueue] No handler registered for job type ${job.type}`);
+    return;
+  }
+
+  console.log(`[JobQueue] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    await runWithHeartbeat(handler, context);
+
+    await db.job.update({
+      where: { id: job.id },
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+    console.log(`[JobQueue] Completed ${job.type} job ${job.id}`);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errors = [
+      ...((job.errors as unknown as JobError[]) || []),
+      { attempt: job.attempts, message: err.message, failedAt: new Date().toISOString() },
+    ];
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    console.error(`[JobQueue] ${job.type} job ${job.id} failed on attempt ${job.attempts}:`, err);
+
+    await db.job.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? JobStatus.FAILED : JobStatus.PENDING,
+        runAt: exhausted ? undefined : new Date(Date.now() + getRetryDelay(job.attempts)),
+        errors: errors as unknown as Prisma.InputJsonValue,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    if (exhausted && handler.onFailed) {
+      try {
+        await handler.onFailed(context, err);
+      } catch (hookError) {
+        console.error(`[JobQueue] onFailed hook for job ${job.id} threw:`, hookError);
+      }
+    }
+  }
+};
+
+const poll = async () => {
+  pollTimer = null;
+  if (polling) return;
+  polling = true;
+
+  try {
+    while (running < CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      running++;
+      runJob(job)
+        .catch((error) => console.error(`[JobQueue] Unexpected error running job ${job.id}:`, error))
+        .finally(() => {
+          running--;
+          wakeWorker();
+        });
+    }
+  } catch (error) {
+    console.error('[JobQueue] Error polling for jobs:', error);
+  } finally {
+    polling = false;
+  }
+
+  schedulePoll(POLL_INTERVAL_MS);
+};
+
+const schedulePoll = (delay: number) => {
+  if (pollTimer) return;
+  pollTimer = setTimeout(poll, delay);
+};
+
+const wakeWorker = () => {
+  if (!started) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+  schedulePoll(0);
+};
+
+/**
+ * Start polling the job table in this process
+ */
+export const startJobWorker = async () => {
+  if (started) return;
+  started = true;
+
+  console.log(`[JobQueue] Starting worker ${WORKER_ID} with concurrency ${CONCURRENCY}`);
+  try {
+    await requeueStaleJobs();
+  } catch (error) {
+    console.error('[JobQueue] Error requeueing stale jobs:', error);
+  }
+
+  setInterval(() => {
+    requeueStaleJobs().catch((error) =>
+      console.error('[JobQueue] Error requeueing stale jobs:', error)
+    );
+  }, LOCK_TIMEOUT_MS).unref();
+
+  schedulePoll(0);
+};
@@ -0,0 +1,91 @@
+import { Prisma } from '@prisma/client';
+import db from '../db/db';
+
+export interface KeywordSearchOptions {
+  topK?: number;
+  subjectId?: string;
+  dataSourceIds?: string[];
+}
+
+/**
+ * Lower-cased search terms of a query. Symbols that matter in study material (H2O, C++,
+ * snake_case identifiers) are kept intact; only surrounding punctuation is stripped.
+ */
+const extractTerms = (query: string): string[] =>
+  Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/\s+/)
+        .map((term) => term.replace(/^[^\w+#]+|[^\w+#]+$/g, ''))
+        .filter((term) => term.length > 1 || /\d/.test(term))
+    )
+  );
+
+/**
+ * Full-text search over the chunks of the user's data sources, the same chunks that were
+ * embedded.
+ *
+ * Postgres ranks the chunks with the 'simple' text search configuration (no stemming, so
+ * formula names and identifiers match exactly), using the indexed "searchVector" column of
+ * each chunk. Scores are normalised to 0-1 relative to the best chunk.
+ */
+export const searchKeyword = async (
+  queryText: string,
+  userId: string,
+  options: KeywordSearchOptions = {}
+) => {
+  const { topK = 5, subjectId, dataSourceIds } = options;
+  const terms = extractTerms(queryText);
+  if (terms.length === 0) return [];
+
+  const filters: Prisma.Sql[] = [Prisma.sql`ds."userId" = ${userId}`];
+  if (dataSourceIds && dataSourceIds.length > 0) {
+    filters.push(Prisma.sql`ds."id" IN (${Prisma.join(dataSourceIds)})`);
+  } else if (subjectId) {
+    filters.push(Prisma.sql`ds."subjectId" = ${subjectId}`);
+  }
+
+  // websearch_to_tsquery ANDs the terms; OR them so partial matches still rank
+  const tsQuery = terms.map((term) => `"${term.replace(/"/g, '')}"`).join(' OR ');
+
+  const matches = await db.$queryRaw<
+    {
+      dataSourceId: string;
+      subjectId: string | null;
+      order: number;
+      text: string;
+      startOffset: number | null;
+      endOffset: number | null;
+      pageNumber: number | null;
+      rank: number;
+    }[]
+  >`
+    WITH "search" AS (SELECT websearch_to_tsquery('simple', ${tsQuery}) AS "query")
+    SELECT c."dataSourceId", ds."subjectId", c."order", c."text", c."startOffset",
+      c."endOffset", c."pageNumber", ts_rank_cd(c."searchVector", "search"."query") AS "rank"
+    FROM "DataSourceChunk" c
+    JOIN "DataSource" ds ON ds."id" = c."dataSourceId"
+    CROSS JOIN "search"
+    WHERE ${Prisma.join(filters, ' AND ')}
+      AND c."searchVector" @@ "search"."query"
+    ORDER BY "rank" DESC, c."dataSourceId", c."order"
+    LIMIT ${topK}
+  `;
+
+  if (matches.length === 0) return [];
+
+  const bestScore = Number(matches[0].rank) || 1;
+  return matches.map((match) => ({
+    text: match.text,
+    score: Number(match.rank) / bestScore,
+    metadata: {
+      chunk_id: match.order,
+      startOffset: match.startOffset,
+      endOffset: match.endOffset,
+      pageNumber: match.pageNumber,
+      subjectId: match.subjectId,
+      dataSourceId: match.dataSourceId,
+    },
+  }));
+};
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { EmbedOptions, GenerateOptions, LLMPrompt, LLMProvider } from './llm.types';
+
+export const FAKE_EMBEDDING_DIMENSION = 768;
+
+export type FakeResponder = (prompt: string, json: boolean) => string | undefined;
+
+let responder: FakeResponder | undefined;
+
+/**
+ * Override what the fake provider answers, e.g. to return a canned quiz in tests.
+ * Returning undefined from the responder falls back to the default answer.
+ */
+export const setFakeLLMResponder = (fn: FakeResponder | undefined) => {
+  responder = fn;
+};
+
+const promptToText = (prompt: LLMPrompt): string =>
+  typeof prompt === 'string'
+    ? prompt
+    : prompt.map((part) => ('text' in part ? part.text : `[${part.inlineData.mimeType}]`)).join('\n');
+
+/**
+ * Deterministic offline provider. Needs no credentials or network and always
+ * returns the same output for the same input.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly embeddingModel: string;
+
+  constructor(
+    readonly model: string = 'fake',
+    private readonly embeddingDimension: number = FAKE_EMBEDDING_DIMENSION
+  ) {
+    this.embeddingModel = `fake-bow-${embeddingDimension}`;
+  }
+
+  async generateText(prompt: LLMPrompt, _options: GenerateOptions = {}): Promise<string> {
+    const text = promptToText(prompt);
+    const custom = responder?.(text, false);
+    if (custom !== undefined) return custom;
+
+    return `[${this.model}] ${text.trim().substring(0, 200)}`;
+  }
+
+  async generateJSON<T = any>(prompt: LLMPrompt, _options: GenerateOptions = {}): Promise<T> {
+    const text = promptToText(prompt);
+    const custom = responder?.(text, true);
+    if (custom !== undefined) return JSON.parse(custom);
+
+    return {} as T;
+  }
+
+  async *streamText(prompt: LLMPrompt, options: GenerateOptions = {}): AsyncIterable<string> {
+    const text = await this.generateText(prompt, options);
+    for (const token of text.match(/\S+\s*/g) || []) {
+      yield token;
+    }
+  }
+
+  /**
+   * Hashed bag-of-words embedding, so texts sharing words end up close together
+   */
+  async embed(texts: string[], _options: EmbedOptions = {}): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.embeddingDimension).fill(0);
+      const words = text.toLowerCase().split(/[\s.,;:!?()[\]{}"'`]+/).filter(Boolean);
+
+      for (const word of words) {
+        const hash = crypto.createHash('md5').update(word).digest();
+        vector[hash.readUInt32BE(0) % this.embeddingDimension] += hash[4] & 1 ? 1 : -1;
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map((v) => v / norm);
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { FakeLLMProvider } from './fake.provider';
+import { OpenAICompatibleLLMProvider } from './openai.provider';
+import { VertexLLMProvider } from './vertex.provider';
+import { LLMFeature, LLMProvider } from './llm.types';
+
+export * from './llm.types';
+export { parseJSONResponse } from './parse-json';
+export { setFakeLLMResponder } from './fake.provider';
+
+const DEFAULT_MODELS: Record<string, { model: string; embeddingModel: string }> = {
+  vertex: { model: 'gemini-2.5-flash', embeddingModel: 'text-embedding-005' },
+  openai: { model: 'gpt-4o-mini', embeddingModel: 'text-embedding-3-small' },
+  fake: { model: 'fake', embeddingModel: 'fake' },
+};
+
+/**
+ * Size of the embeddings stored in the vector store. Providers are asked for embeddings of this
+ * size where their models support it.
+ */
+const DEFAULT_EMBEDDING_DIMENSION = 768;
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * EMBEDDING_DIMENSION, defaulting to 768
+ */
+export const getEmbeddingDimension = (): number => {
+  if (!process.env.EMBEDDING_DIMENSION) return DEFAULT_EMBEDDING_DIMENSION;
+
+  const dimension = Number(process.env.EMBEDDING_DIMENSION);
+  if (!Number.isInteger(dimension) || dimension <= 0) {
+    throw new Error(`Invalid EMBEDDING_DIMENSION: ${process.env.EMBEDDING_DIMENSION}`);
+  }
+  return dimension;
+};
+
+/**
+ * Resolve the model for a feature: LLM_MODEL_<FEATURE>, then LLM_MODEL, then the provider default
+ */
+const resolveModel = (providerName: string, feature: LLMFeature): string =>
+  (feature !== 'default' && process.env[`LLM_MODEL_${feature.toUpperCase()}`]) ||
+  process.env.LLM_MODEL ||
+  DEFAULT_MODELS[providerName].model;
+
+const createProvider = (providerName: string, model: string): LLMProvider => {
+  const embeddingModel =
+    process.env.EMBEDDING_MODEL || DEFAULT_MODELS[providerName].embeddingModel;
+  const embeddingDimension = getEmbeddingDimension();
+
+  switch (providerName) {
+    case 'vertex':
+      return new VertexLLMProvider(model, embeddingModel, embeddingDimension);
+    case 'openai':
+      return new OpenAICompatibleLLMProvider(
+        model,
+        embeddingModel,
+        embeddingDimension,
+        process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        process.env.LLM_API_KEY
+      );
+    case 'fake':
+      return new FakeLLMProvider(model, embeddingDimension);
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+};
+
+/**
+ * Get the configured LLM provider for a feature.
+ * LLM_PROVIDER selects the backend (vertex | openai | fake), defaulting to vertex.
+ */
+export const getLLM = (feature: LLMFeature = 'default'): LLMProvider => {
+  const providerName = (process.env.LLM_PROVIDER || 'vertex').toLowerCase();
+  if (!DEFAULT_MODELS[providerName]) {
+    throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+
+  const model = resolveModel(providerName, feature);
+  const key = `${providerName}:${model}`;
+
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createProvider(providerName, model);
+    providers.set(key, provider);
+    console.log(`[LLM] Using ${providerName} provider with model ${model} for ${feature}`);
+  }
+  return provider;
+};
+
+/**
+ * Check at startup that the embedding model returns embeddings of the configured dimension, as
+ * the vector store rejects any other size
+ */
+export const verifyEmbeddingDimension = async (): Promise<void> => {
+  const expected = getEmbeddingDimension();
+  const provider = getLLM();
+  const [embedding] = await provider.embed(['dimension check']);
+  if (embedding?.length !== expected) {
+    throw new Error(
+      `Embedding model ${provider.embeddingModel} returns ${embedding?.length} dimensions but ` +
+        `EMBEDDING_DIMENSION is ${expected}`
+    );
+  }
+  console.log(`[LLM] Embeddings have ${expected} dimensions`);
+};
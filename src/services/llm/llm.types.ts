@@ -0,0 +1,58 @@
+/**
+ * A single piece of prompt input. Inline data is used for multimodal prompts
+ * (documents, images, audio) and is base64 encoded.
+ */
+export type LLMPart = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+export type LLMPrompt = string | LLMPart[];
+
+export interface GenerateOptions {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface EmbedOptions {
+  taskType?: string;
+}
+
+/**
+ * Features that can be routed to a different model through configuration,
+ * e.g. LLM_MODEL_QUIZ=gemini-2.5-pro
+ */
+export type LLMFeature =
+  | 'default'
+  | 'extraction'
+  | 'lesson'
+  | 'quiz'
+  | 'query'
+  | 'rerank'
+  | 'feed'
+  | 'translation'
+  | 'transcription';
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly embeddingModel: string;
+
+  /**
+   * Generate free-form text for a prompt
+   */
+  generateText(prompt: LLMPrompt, options?: GenerateOptions): Promise<string>;
+
+  /**
+   * Generate a JSON value for a prompt. The response is parsed before being returned.
+   */
+  generateJSON<T = any>(prompt: LLMPrompt, options?: GenerateOptions): Promise<T>;
+
+  /**
+   * Generate free-form text, yielding chunks as soon as the model produces them
+   */
+  streamText(prompt: LLMPrompt, options?: GenerateOptions): AsyncIterable<string>;
+
+  /**
+   * Embed each text into a vector, preserving input order
+   */
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+}
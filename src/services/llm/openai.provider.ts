@@ -0,0 +1,140 @@
+import { parseJSONResponse } from './parse-json';
+import { EmbedOptions, GenerateOptions, LLMPrompt, LLMProvider } from './llm.types';
+
+/**
+ * Provider for any OpenAI-compatible HTTP endpoint (OpenAI, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(
+    readonly model: string,
+    readonly embeddingModel: string,
+    private readonly embeddingDimension: number,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  private async request(path: string, body: Record<string, any>): Promise<globalThis.Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`LLM endpoint responded with ${response.status}: ${errorText}`);
+    }
+
+    return response;
+  }
+
+  private async post(path: string, body: Record<string, any>): Promise<any> {
+    const response = await this.request(path, body);
+    return response.json();
+  }
+
+  private toMessages(prompt: LLMPrompt) {
+    if (typeof prompt === 'string') {
+      return [{ role: 'user', content: prompt }];
+    }
+
+    const content = prompt.map((part) =>
+      'text' in part
+        ? { type: 'text', text: part.text }
+        : {
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+          }
+    );
+    return [{ role: 'user', content }];
+  }
+
+  private buildCompletionBody(prompt: LLMPrompt, options: GenerateOptions) {
+    return {
+      model: this.model,
+      messages: this.toMessages(prompt),
+      max_tokens: options.maxOutputTokens ?? 8192,
+      temperature: options.temperature ?? 0.7,
+      top_p: options.topP ?? 0.95,
+    };
+  }
+
+  private async complete(
+    prompt: LLMPrompt,
+    options: GenerateOptions,
+    json: boolean
+  ): Promise<string> {
+    const data = await this.post('/chat/completions', {
+      ...this.buildCompletionBody(prompt, options),
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+    });
+
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('No response choices returned');
+    }
+    return text;
+  }
+
+  async generateText(prompt: LLMPrompt, options: GenerateOptions = {}): Promise<string> {
+    return this.complete(prompt, options, false);
+  }
+
+  async generateJSON<T = any>(prompt: LLMPrompt, options: GenerateOptions = {}): Promise<T> {
+    const responseText = await this.complete(prompt, options, true);
+    return parseJSONResponse<T>(responseText);
+  }
+
+  async *streamText(prompt: LLMPrompt, options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.request('/chat/completions', {
+      ...this.buildCompletionBody(prompt, options),
+      stream: true,
+    });
+    if (!response.body) {
+      throw new Error('LLM endpoint returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+        const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+
+  async embed(texts: string[], _options: EmbedOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const data = await this.post('/embeddings', {
+      model: this.embeddingModel,
+      input: texts,
+      // Only OpenAI's text-embedding-3 models can shorten their embeddings; other servers may
+      // reject the parameter
+      ...(this.embeddingModel.startsWith('text-embedding-3')
+        ? { dimensions: this.embeddingDimension }
+        : {}),
+    });
+    return (data.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
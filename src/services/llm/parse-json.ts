@@ -0,0 +1,33 @@
+/**
+ * Parse a JSON value out of a model response. Models occasionally wrap the JSON
+ * in markdown code fences or add text around it, so we fall back to the
+ * outermost object/array in the response.
+ */
+export const parseJSONResponse = <T = any>(responseText: string): T => {
+  let text = responseText.trim();
+
+  if (text.startsWith('```')) {
+    text = text.replace(/^```(?:json)?/, '');
+  }
+  if (text.endsWith('```')) {
+    text = text.substring(0, text.length - 3);
+  }
+  text = text.trim();
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const objectStart = text.indexOf('{');
+    const arrayStart = text.indexOf('[');
+    const useArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+
+    const jsonStart = useArray ? arrayStart : objectStart;
+    const jsonEnd = text.lastIndexOf(useArray ? ']' : '}') + 1;
+
+    if (jsonStart === -1 || jsonEnd === 0) {
+      throw new Error('Could not find valid JSON in model response');
+    }
+
+    return JSON.parse(text.substring(jsonStart, jsonEnd));
+  }
+};
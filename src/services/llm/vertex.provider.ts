@@ -0,0 +1,117 @@
+import { GenerativeModel, VertexAI } from '@google-cloud/vertexai';
+import { parseJSONResponse } from './parse-json';
+import { EmbedOptions, GenerateOptions, LLMPart, LLMPrompt, LLMProvider } from './llm.types';
+
+const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'learnability-project';
+const LOCATION = process.env.GOOGLE_CLOUD_LOCATION || 'us-central1';
+
+let vertexAI: VertexAI | undefined;
+
+const getVertexAI = (): VertexAI => {
+  if (!vertexAI) {
+    vertexAI = new VertexAI({ project: PROJECT_ID, location: LOCATION });
+  }
+  return vertexAI;
+};
+
+const toParts = (prompt: LLMPrompt): LLMPart[] =>
+  typeof prompt === 'string' ? [{ text: prompt }] : prompt;
+
+/**
+ * Google Vertex AI (Gemini) implementation of the LLM provider
+ */
+export class VertexLLMProvider implements LLMProvider {
+  readonly name = 'vertex';
+  private generativeModel: GenerativeModel | undefined;
+
+  constructor(
+    readonly model: string,
+    readonly embeddingModel: string,
+    private readonly embeddingDimension: number
+  ) {}
+
+  private getModel(): GenerativeModel {
+    if (!this.generativeModel) {
+      try {
+        this.generativeModel = getVertexAI().getGenerativeModel({ model: this.model });
+      } catch (error) {
+        console.error('[VertexLLMProvider] Error initializing Vertex AI client:', error);
+        throw new Error('Gemini model not initialized');
+      }
+    }
+    return this.generativeModel;
+  }
+
+  private buildRequest(prompt: LLMPrompt, options: GenerateOptions, responseMimeType?: string) {
+    return {
+      contents: [{ role: 'user', parts: toParts(prompt) }],
+      generationConfig: {
+        maxOutputTokens: options.maxOutputTokens ?? 8192,
+        temperature: options.temperature ?? 0.7,
+        topP: options.topP ?? 0.95,
+        ...(responseMimeType ? { responseMimeType } : {}),
+      },
+    };
+  }
+
+  private async generate(
+    prompt: LLMPrompt,
+    options: GenerateOptions,
+    responseMimeType?: string
+  ): Promise<string> {
+    const result = await this.getModel().generateContent(
+      this.buildRequest(prompt, options, responseMimeType)
+    );
+
+    const response = result.response;
+    if (!response || !response.candidates || response.candidates.length === 0) {
+      throw new Error('No response candidates returned');
+    }
+
+    const parts = response.candidates[0].content?.parts || [];
+    return parts.map((part) => part.text || '').join('');
+  }
+
+  async generateText(prompt: LLMPrompt, options: GenerateOptions = {}): Promise<string> {
+    return this.generate(prompt, options);
+  }
+
+  async generateJSON<T = any>(prompt: LLMPrompt, options: GenerateOptions = {}): Promise<T> {
+    const responseText = await this.generate(prompt, options, 'application/json');
+    return parseJSONResponse<T>(responseText);
+  }
+
+  async *streamText(prompt: LLMPrompt, options: GenerateOptions = {}): AsyncIterable<string> {
+    const result = await this.getModel().generateContentStream(this.buildRequest(prompt, options));
+
+    for await (const item of result.stream) {
+      const parts = item.candidates?.[0]?.content?.parts || [];
+      const text = parts.map((part) => part.text || '').join('');
+      if (text) yield text;
+    }
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const aiplatform = require('@google-cloud/aiplatform');
+    const { PredictionServiceClient } = aiplatform.v1;
+    const { helpers } = aiplatform;
+
+    const task = options.taskType || 'QUESTION_ANSWERING';
+    const endpoint = `projects/${PROJECT_ID}/locations/${LOCATION}/publishers/google/models/${this.embeddingModel}`;
+    const client = new PredictionServiceClient({
+      apiEndpoint: `${LOCATION}-aiplatform.googleapis.com`,
+    });
+
+    const instances = texts.map((content) => helpers.toValue({ content, task_type: task }));
+    const parameters = helpers.toValue({ outputDimensionality: this.embeddingDimension });
+    const [response] = await client.predict({ endpoint, instances, parameters });
+
+    return response.predictions.map((p: any) => {
+      const embeddingsProto = p.structValue.fields.embeddings;
+      const valuesProto = embeddingsProto.structValue.fields.values;
+      return valuesProto.listValue.values.map((v: any) => v.numberValue);
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { Prisma } from '@prisma/client';
+import db from '../db/db';
+
+/**
+ * Characters of content covered by "searchVector", which keeps it under the 1MB tsvector limit.
+ * Must match the generated column in the data_source_search_vector migration.
+ */
+const SEARCH_CONTENT_LIMIT = 500000;
+
+/**
+ * Prefix query for the words of a search, e.g. "cell bio" matches "cells" and "biology".
+ * Postgres splits the search with the same 'simple' parser used for the documents, and
+ * every word must match.
+ */
+const prefixQuery = (search: string) => Prisma.sql`(
+  SELECT to_tsquery('simple', string_agg(quote_literal("lexeme") || ':*', ' & '))
+  FROM unnest(to_tsvector('simple', ${search}))
+)`;
+
+/**
+ * Find the user's data sources matching a search over their name, tags, description and
+ * extracted content. Returns the relevance of each match, weighting name matches highest,
+ * then tags, description and content. The text apart from tags is searched through the
+ * indexed "searchVector" column rather than parsed on every query.
+ */
+export const searchDataSources = async (
+  userId: string,
+  search: string
+): Promise<Map<string, number>> => {
+  const matches = await db.$queryRaw<{ id: string; rank: number }[]>`
+    WITH "search" AS (SELECT ${prefixQuery(search)} AS "query")
+    SELECT ds."id", ts_rank_cd(
+      coalesce(ds."searchVector", ''::tsvector) ||
+        setweight(to_tsvector('simple', coalesce(tags."names", '')), 'B'),
+      "search"."query"
+    ) AS "rank"
+    FROM "DataSource" ds
+    CROSS JOIN "search"
+    LEFT JOIN LATERAL (
+      SELECT string_agg(t."name", ' ') AS "names"
+      FROM "DataSourceTag" dst
+      JOIN "Tag" t ON t."id" = dst."tagId"
+      WHERE dst."dataSourceId" = ds."id"
+    ) tags ON true
+    WHERE ds."userId" = ${userId}
+      AND (
+        ds."searchVector" @@ "search"."query" OR
+        to_tsvector('simple', coalesce(tags."names", '')) @@ "search"."query"
+      )
+  `;
+
+  console.log(`[MaterialSearchService] "${search}" matched ${matches.length} data source(s)`);
+  return new Map(matches.map((match) => [match.id, Number(match.rank)]));
+};
+
+/**
+ * The passage of each data source's content that best matches the search, for showing
+ * why a result matched. Data sources without matching content get no snippet. Content is
+ * matched through the weight D (content) lexemes of "searchVector", and only the part of it
+ * that column covers is highlighted.
+ */
+export const getSearchSnippets = async (
+  dataSourceIds: string[],
+  search: string
+): Promise<Map<string, string>> => {
+  if (dataSourceIds.length === 0) return new Map();
+
+  const snippets = await db.$queryRaw<{ id: string; snippet: string }[]>`
+    WITH "search" AS (SELECT ${prefixQuery(search)} AS "query")
+    SELECT ds."id",
+      ts_headline('simple', left(ds."content", ${SEARCH_CONTENT_LIMIT}::int), "search"."query",
+        'StartSel="", StopSel="", MaxWords=30, MinWords=12, MaxFragments=1') AS "snippet"
+    FROM "DataSource" ds, "search"
+    WHERE ds."id" IN (${Prisma.join(dataSourceIds)})
+      AND ts_filter(ds."searchVector", '{d}') @@ "search"."query"
+  `;
+
+  return new Map(snippets.map((row) => [row.id, row.snippet.trim()]));
+};
@@ -11,6 +11,33 @@ export interface PlaceholderOptions {
   borderColor?: string;
 }
 
+export interface FileIconOptions {
+  /**
+   * Data source type, e.g. PDF or AUDIO, which picks the icon's color
+   */
+  type: string;
+  /**
+   * Short label drawn on the icon, usually the file extension. Defaults to the type.
+   */
+  label?: string;
+  width?: number;
+  height?: number;
+}
+
+const FILE_ICON_COLORS: Record<string, string> = {
+  PDF: '#d93025',
+  DOCS: '#1a73e8',
+  TEXT: '#5f6368',
+  IMAGE: '#9334e6',
+  AUDIO: '#e37400',
+  VIDEO: '#c5221f',
+  YOUTUBE: '#ff0000',
+  WEBSITE: '#188038',
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 export class PlaceholderService {
   generateSVG(options: PlaceholderOptions): string {
     const width = options.width || 300;
@@ -40,6 +67,35 @@ export class PlaceholderService {
 
     return svg;
   }
+
+  /**
+   * A document icon colored by data source type, used as the thumbnail of materials that
+   * have no previewable image
+   */
+  generateFileIcon(options: FileIconOptions): string {
+    const width = options.width || 400;
+    const height = options.height || 300;
+    const color = FILE_ICON_COLORS[options.type] || FILE_ICON_COLORS.TEXT;
+    const label = escapeXml((options.label || options.type).toUpperCase().substring(0, 8));
+
+    // Page with a folded top-right corner, centered and sized to the smaller dimension
+    const pageHeight = Math.floor(Math.min(width, height) * 0.6);
+    const pageWidth = Math.floor(pageHeight * 0.78);
+    const fold = Math.floor(pageWidth * 0.28);
+    const x = Math.floor((width - pageWidth) / 2);
+    const y = Math.floor((height - pageHeight) / 2);
+    const fontSize = Math.floor(pageWidth / Math.max(label.length, 3));
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+  <rect width="100%" height="100%" fill="${color}" fill-opacity="0.08" />
+  <path d="M${x} ${y} h${pageWidth - fold} l${fold} ${fold} v${pageHeight - fold} h-${pageWidth} z" fill="#ffffff" stroke="${color}" stroke-width="3" stroke-linejoin="round" />
+  <path d="M${x + pageWidth - fold} ${y} v${fold} h${fold}" fill="none" stroke="${color}" stroke-width="3" stroke-linejoin="round" />
+  <rect x="${x - 10}" y="${y + pageHeight - fontSize * 2}" width="${pageWidth + 20}" height="${Math.floor(fontSize * 1.4)}" rx="4" fill="${color}" />
+  <text x="50%" y="${y + pageHeight - fontSize * 1.3}" font-family="Arial, sans-serif" font-size="${fontSize}" font-weight="bold"
+    fill="#ffffff" text-anchor="middle" dominant-baseline="middle">${label}</text>
+</svg>`;
+  }
 }
 
 export default new PlaceholderService();
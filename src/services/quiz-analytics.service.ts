@@ -1,4 +1,5 @@
 import db from '../db/db';
+import { formatQuizAttempt, quizAttemptAnswersInclude } from './quiz.service';
 
 /**
  * Get analytics for a specific quiz
@@ -9,15 +10,28 @@ export const getQuizAnalytics = async (quizId: string, userId: string) => {
       id: quizId,
       userId,
     },
+    select: {
+      questions: {
+        orderBy: { order: 'asc' },
+        select: { id: true, content: true },
+      },
+    },
   });
 
   if (!quiz) {
     throw new Error('Quiz not found');
   }
 
-  const attempts = (quiz.attempts || []) as any[];
+  const scores = await db.quizAttempt.aggregate({
+    where: { quizId },
+    _count: { _all: true },
+    _avg: { percentage: true },
+    _max: { percentage: true },
+    _min: { percentage: true },
+  });
+  const attemptsCount = scores._count._all;
 
-  if (attempts.length === 0) {
+  if (attemptsCount === 0) {
     return {
       attemptsCount: 0,
       averageScore: 0,
@@ -29,25 +43,35 @@ export const getQuizAnalytics = async (quizId: string, userId: string) => {
     };
   }
 
-  const averageScore = attempts.reduce((sum, a) => sum + a.percentage, 0) / attempts.length;
-  const bestScore = Math.max(...attempts.map((a) => a.percentage));
-  const worstScore = Math.min(...attempts.map((a) => a.percentage));
-  const passRate = (attempts.filter((a) => a.passed).length / attempts.length) * 100;
-
-  const questions = (quiz.questions || []) as any[];
-  const questionAnalytics = questions.map((q) => {
-    const questionAttempts = attempts.flatMap((a) =>
-      a.answers.filter((ans: any) => ans.questionId === q.id)
-    );
-
-    const correctCount = questionAttempts.filter((a: any) => a.isCorrect).length;
-    const attemptCount = questionAttempts.length;
+  const [passedCount, answerCounts, attempts] = await Promise.all([
+    db.quizAttempt.count({ where: { quizId, passed: true } }),
+    db.quizAttemptAnswer.groupBy({
+      by: ['questionId', 'isCorrect'],
+      where: { attempt: { quizId } },
+      _count: { _all: true },
+    }),
+    db.quizAttempt.findMany({
+      where: { quizId },
+      orderBy: { completedAt: 'asc' },
+      select: { completedAt: true, percentage: true, passed: true },
+    }),
+  ]);
+
+  const questionCounts = new Map<string, { correct: number; total: number }>();
+  for (const { questionId, isCorrect, _count } of answerCounts) {
+    const counts = questionCounts.get(questionId) || { correct: 0, total: 0 };
+    counts.total += _count._all;
+    if (isCorrect) counts.correct += _count._all;
+    questionCounts.set(questionId, counts);
+  }
 
+  const questionAnalytics = quiz.questions.map((question) => {
+    const { correct, total } = questionCounts.get(question.id) || { correct: 0, total: 0 };
     return {
-      questionId: q.id,
-      content: q.content,
-      correctRate: attemptCount > 0 ? (correctCount / attemptCount) * 100 : 0,
-      attemptCount,
+      questionId: question.id,
+      content: question.content,
+      correctRate: total > 0 ? (correct / total) * 100 : 0,
+      attemptCount: total,
     };
   });
 
@@ -58,11 +82,11 @@ export const getQuizAnalytics = async (quizId: string, userId: string) => {
   }));
 
   return {
-    attemptsCount: attempts.length,
-    averageScore,
-    bestScore,
-    worstScore,
-    passRate,
+    attemptsCount,
+    averageScore: scores._avg.percentage || 0,
+    bestScore: scores._max.percentage || 0,
+    worstScore: scores._min.percentage || 0,
+    passRate: (passedCount / attemptsCount) * 100,
     questionAnalytics,
     progressTrend,
   };
@@ -72,13 +96,13 @@ export const getQuizAnalytics = async (quizId: string, userId: string) => {
  * Get overall quiz analytics for a user
  */
 export const getUserQuizAnalytics = async (userId: string) => {
-  const quizzes = await db.quiz.findMany({
+  const totalQuizzes = await db.quiz.count({
     where: {
       userId,
     },
   });
 
-  if (quizzes.length === 0) {
+  if (totalQuizzes === 0) {
     return {
       totalQuizzes: 0,
       completedQuizzes: 0,
@@ -88,80 +112,51 @@ export const getUserQuizAnalytics = async (userId: string) => {
     };
   }
 
-  const quizzesWithAttempts = quizzes.filter((q) => {
-    const attempts = (q.attempts || []) as any[];
-    return attempts.length > 0;
-  });
-
-  let totalScore = 0;
-  let totalAttempts = 0;
-
-  quizzes.forEach((q) => {
-    const attempts = (q.attempts || []) as any[];
-    if (attempts.length > 0) {
-      totalScore += attempts.reduce((sum, a) => sum + a.percentage, 0);
-      totalAttempts += attempts.length;
-    }
-  });
-
-  const averageScore = totalAttempts > 0 ? totalScore / totalAttempts : 0;
-
-  const subjectPerformance: Record<string, { count: number; totalScore: number }> = {};
-
-  for (const quiz of quizzes) {
-    if (!quiz.subjectId) continue;
-
-    const attempts = (quiz.attempts || []) as any[];
-    if (attempts.length === 0) continue;
-
-    const subjectKey = quiz.subjectId;
-
-    if (!subjectPerformance[subjectKey]) {
-      subjectPerformance[subjectKey] = { count: 0, totalScore: 0 };
-    }
-
-    attempts.forEach((a) => {
-      subjectPerformance[subjectKey].count++;
-      subjectPerformance[subjectKey].totalScore += a.percentage;
-    });
-  }
-
-  const subjectsWithNames = await Promise.all(
-    Object.keys(subjectPerformance).map(async (subjectId) => {
-      const subject = await db.subject.findUnique({
-        where: { id: subjectId },
-        select: { name: true, color: true },
-      });
-
-      const { count, totalScore } = subjectPerformance[subjectId];
-      return {
-        subjectId,
-        subjectName: subject?.name || 'Unknown',
-        subjectColor: subject?.color || 'bg-gray-500',
-        averageScore: count > 0 ? totalScore / count : 0,
-        attemptCount: count,
-      };
-    })
-  );
-
-  const allAttempts = quizzes.flatMap((q) => {
-    const attempts = (q.attempts || []) as any[];
-    return attempts.map((a) => ({
-      ...a,
-      quizId: q.id,
-      quizTitle: q.title,
-    }));
-  });
-
-  const recentActivity = allAttempts
-    .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())
-    .slice(0, 10);
+  const [completedQuizzes, scores, subjectPerformance, recentAttempts] = await Promise.all([
+    db.quiz.count({ where: { userId, attempts: { some: {} } } }),
+    db.quizAttempt.aggregate({
+      where: { quiz: { userId } },
+      _avg: { percentage: true },
+    }),
+    db.$queryRaw<
+      {
+        subjectId: string;
+        subjectName: string;
+        subjectColor: string;
+        averageScore: number;
+        attemptCount: number;
+      }[]
+    >`
+      SELECT s."id" AS "subjectId", s."name" AS "subjectName", s."color" AS "subjectColor",
+        AVG(a."percentage")::float AS "averageScore", COUNT(*)::int AS "attemptCount"
+      FROM "QuizAttempt" a
+      JOIN "Quiz" q ON q."id" = a."quizId"
+      JOIN "Subject" s ON s."id" = q."subjectId"
+      WHERE q."userId" = ${userId}
+      GROUP BY s."id"
+    `,
+    db.quizAttempt.findMany({
+      where: { quiz: { userId } },
+      orderBy: { completedAt: 'desc' },
+      take: 10,
+      include: {
+        ...quizAttemptAnswersInclude,
+        quiz: { select: { title: true } },
+      },
+    }),
+  ]);
+
+  const recentActivity = recentAttempts.map((attempt) => ({
+    ...formatQuizAttempt(attempt),
+    quizId: attempt.quizId,
+    quizTitle: attempt.quiz.title,
+  }));
 
   return {
-    totalQuizzes: quizzes.length,
-    completedQuizzes: quizzesWithAttempts.length,
-    averageScore,
-    subjectPerformance: subjectsWithNames,
+    totalQuizzes,
+    completedQuizzes,
+    averageScore: scores._avg.percentage || 0,
+    subjectPerformance,
     recentActivity,
   };
 };
@@ -0,0 +1,579 @@
+import { QuizAnswerGrader, QuizAnswerMatchRule } from '@prisma/client';
+import { getLLM } from './llm';
+
+/**
+ * Question types answered in the student's own words, graded by the LLM
+ */
+export const OPEN_ENDED_QUESTION_TYPES = ['essay', 'short-answer'];
+
+/**
+ * Open-ended answers earning at least this share of their points count as correct
+ */
+const OPEN_ENDED_CORRECT_SHARE = 0.5;
+
+/**
+ * Question types answered by picking or arranging the question's options
+ */
+export const CHOICE_QUESTION_TYPES = [
+  'multiple-choice',
+  'true-false',
+  'multi-select',
+  'ordering',
+  'matching',
+];
+
+export interface GradableQuestion {
+  id: string;
+  content: string;
+  type: string;
+  points: number;
+  explanation: string | null;
+  numericAnswer: number | null;
+  tolerance: number | null;
+  unit: string | null;
+  typoTolerance: number | null;
+  aiEquivalence: boolean;
+  options: {
+    id: string;
+    content: string;
+    isCorrect: boolean;
+    match: string | null;
+    matchKey: string;
+  }[];
+}
+
+export interface QuizAnswerMatch {
+  optionId: string;
+  matchId: string;
+}
+
+/**
+ * An answer as submitted. Which fields are used depends on the question type.
+ */
+export interface QuizAnswerResponse {
+  answerId?: string | null;
+  /**
+   * Options picked (multi-select) or arranged (ordering), in the order given
+   */
+  answerIds?: string[] | null;
+  /**
+   * Pairs for matching questions. matchId is the key of the match picked for the option.
+   */
+  matches?: QuizAnswerMatch[] | null;
+  text?: string | null;
+}
+
+export interface AnswerGrade {
+  pointsEarned: number;
+  isCorrect: boolean;
+  gradedBy: QuizAnswerGrader;
+  justification: string | null;
+  needsReview?: boolean;
+}
+
+export interface FillBlankGrade extends AnswerGrade {
+  matchRule: QuizAnswerMatchRule | null;
+}
+
+export const isOpenEndedQuestion = (question: Pick<GradableQuestion, 'type'>) =>
+  OPEN_ENDED_QUESTION_TYPES.includes(question.type);
+
+export const isChoiceQuestion = (question: Pick<GradableQuestion, 'type'>) =>
+  CHOICE_QUESTION_TYPES.includes(question.type);
+
+/**
+ * Whether an answer earning these points counts as correct. Closed questions need full
+ * points; open-ended ones need a passing share of them.
+ */
+export const isCorrectForPoints = (
+  question: Pick<GradableQuestion, 'type' | 'points'>,
+  pointsEarned: number
+): boolean =>
+  isOpenEndedQuestion(question)
+    ? pointsEarned >= question.points * OPEN_ENDED_CORRECT_SHARE
+    : pointsEarned >= question.points;
+
+/**
+ * Grade a free-text answer to an essay or short-answer question. The question's explanation
+ * is the rubric, along with the model answer when the question has one. Answers the LLM cannot
+ * grade get no points, for a teacher to review.
+ */
+export const gradeOpenEndedAnswer = async (
+  question: GradableQuestion,
+  text: string
+): Promise<AnswerGrade> => {
+  const maxPoints = question.points || 1;
+
+  if (!text.trim()) {
+    return {
+      pointsEarned: 0,
+      isCorrect: false,
+      gradedBy: QuizAnswerGrader.AUTO,
+      justification: 'No answer was given.',
+    };
+  }
+
+  const modelAnswer = question.options.find((option) => option.isCorrect);
+  const prompt = `
+  You are grading a student's answer to an open-ended ${question.type} quiz question.
+  Grade strictly against the rubric. Award partial credit for partially correct answers,
+  and ignore spelling and grammar unless the rubric says otherwise.
+
+  Question: ${question.content}
+  Maximum points: ${maxPoints}
+  Rubric: ${question.explanation || 'None given. Judge the answer on accuracy and completeness.'}
+  Model answer: ${modelAnswer?.content || 'None given'}
+
+  Student's answer:
+  """
+  ${text}
+  """
+
+  Respond with a JSON object following EXACTLY this structure:
+  {
+    "score": <number of points earned, from 0 to ${maxPoints}>,
+    "justification": "One to three sentences explaining the score to the student"
+  }`;
+
+  try {
+    const result = await getLLM('quiz').generateJSON<{ score?: unknown; justification?: unknown }>(
+      prompt,
+      { maxOutputTokens: 1024, temperature: 0.2 }
+    );
+
+    const score = Number(result?.score);
+    if (!Number.isFinite(score) || typeof result?.justification !== 'string') {
+      throw new Error('Grader response is missing a score or justification');
+    }
+
+    // Half points are as fine-grained as grades get
+    const pointsEarned = Math.min(maxPoints, Math.max(0, Math.round(score * 2) / 2));
+    return {
+      pointsEarned,
+      isCorrect: isCorrectForPoints({ type: question.type, points: maxPoints }, pointsEarned),
+      gradedBy: QuizAnswerGrader.AI,
+      justification: result.justification.trim(),
+    };
+  } catch (error) {
+    console.error(`[QuizGradingService] Could not grade answer to question ${question.id}:`, error);
+    return {
+      pointsEarned: 0,
+      isCorrect: false,
+      gradedBy: QuizAnswerGrader.AUTO,
+      justification: 'This answer could not be graded automatically and is awaiting review.',
+      needsReview: true,
+    };
+  }
+};
+
+/**
+ * Multipliers of the SI prefixes a unit can be given with, e.g. "km" for an answer in "m"
+ */
+const SI_PREFIXES: Record<string, number> = {
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  h: 1e2,
+  da: 1e1,
+  d: 1e-1,
+  c: 1e-2,
+  m: 1e-3,
+  u: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+};
+
+const normalizeUnit = (unit: string) =>
+  unit
+    .replace(/\s+/g, '')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/[µμ]/g, 'u')
+    .replace(/·/g, '*');
+
+/**
+ * Parse a number as people type it: "9.81", "-0.5", "1,234.5", "9,81", "6.02e23" or
+ * "6.02 x 10^23". Returns the number and whatever follows it.
+ */
+const parseLeadingNumber = (text: string): { value: number; rest: string } | null => {
+  const match = text
+    .trim()
+    .match(
+      /^([+-]?(?:\d+(?:[.,]\d+)*|[.,]\d+)(?:[eE][+-]?\d+)?)(?:\s*(?:x|×|\*)\s*10\^?([+-]?\d+))?(.*)$/
+    );
+  if (!match) return null;
+
+  let digits = match[1];
+  if (digits.includes('.') && digits.includes(',')) {
+    digits = digits.replace(/,/g, '');
+  } else if (/^[+-]?\d+,\d+$/.test(digits) && !/,\d{3}$/.test(digits)) {
+    // A single comma not followed by three digits is a decimal comma
+    digits = digits.replace(',', '.');
+  } else {
+    digits = digits.replace(/,/g, '');
+  }
+
+  const value = Number(digits) * (match[2] ? 10 ** Number(match[2]) : 1);
+  return Number.isFinite(value) ? { value, rest: match[3].trim() } : null;
+};
+
+/**
+ * Factor converting a value in the given unit to the expected one, or null when they are
+ * different units. Only SI prefixes are converted: "cm" to "m", or "km/s^2" to "m/s^2".
+ */
+const getUnitFactor = (given: string, expected: string): number | null => {
+  const normalizedGiven = normalizeUnit(given);
+  const normalizedExpected = normalizeUnit(expected);
+  if (normalizedGiven === normalizedExpected) return 1;
+
+  if (!normalizedGiven.endsWith(normalizedExpected)) return null;
+  const prefix = normalizedGiven.slice(0, -normalizedExpected.length);
+  if (!SI_PREFIXES[prefix]) return null;
+
+  // A prefix scales with the power of the first unit, e.g. 1 cm^2 = 1e-4 m^2
+  const power = normalizedExpected.match(/^[A-Za-z]+\^(\d+)/);
+  return SI_PREFIXES[prefix] ** (power ? Number(power[1]) : 1);
+};
+
+/**
+ * Whether a typed number is within the question's tolerance of its answer. Answers without a
+ * unit are taken to be in the question's unit.
+ */
+const isNumericAnswerCorrect = (question: GradableQuestion, text: string): boolean => {
+  if (question.numericAnswer === null) return false;
+
+  const parsed = parseLeadingNumber(text);
+  if (!parsed) return false;
+
+  let { value } = parsed;
+  if (parsed.rest) {
+    const factor = question.unit ? getUnitFactor(parsed.rest, question.unit) : null;
+    if (factor === null) return false;
+    value *= factor;
+  }
+
+  // Allow for floating point error when no tolerance is given
+  const tolerance = question.tolerance || Math.abs(question.numericAnswer) * 1e-9;
+  return Math.abs(value - question.numericAnswer) <= tolerance + 1e-12;
+};
+
+/**
+ * A typed number, if the text is nothing but a number
+ */
+const parseNumber = (text: string): number | null => {
+  const parsed = parseLeadingNumber(text);
+  return parsed && !parsed.rest ? parsed.value : null;
+};
+
+/**
+ * Text as compared by the NORMALIZED rule: lowercase, without diacritics or punctuation, and
+ * with single spaces
+ */
+const normalizeText = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,;:!?¿¡'"`´‘’“”«»()[\]{}<>\-–—_/\\|*~]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Typos allowed in answers without a set tolerance: none in short words, where one letter can
+ * make a different word, and more as answers get longer
+ */
+const getDefaultTypoTolerance = (answer: string) =>
+  answer.length <= 4 ? 0 : answer.length <= 8 ? 1 : 2;
+
+/**
+ * Edits turning one text into the other, counting inserted, removed and replaced characters and
+ * swapped neighbours (optimal string alignment distance)
+ */
+const getEditDistance = (a: string, b: string): number => {
+  const distances: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    distances.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        distances[i].push(j);
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, distances[i - 2][j - 2] + 1);
+      }
+      distances[i].push(distance);
+    }
+  }
+  return distances[a.length][b.length];
+};
+
+const isWithinTypoTolerance = (given: string, accepted: string, question: GradableQuestion) => {
+  const normalizedAccepted = normalizeText(accepted);
+  // Numbers are right or wrong: 1991 is not a typo of 1990
+  if (!normalizedAccepted || parseNumber(accepted) !== null) return false;
+
+  const normalizedGiven = normalizeText(given);
+  const tolerance = question.typoTolerance ?? getDefaultTypoTolerance(normalizedAccepted);
+  return (
+    tolerance > 0 &&
+    Math.abs(normalizedGiven.length - normalizedAccepted.length) <= tolerance &&
+    getEditDistance(normalizedGiven, normalizedAccepted) <= tolerance
+  );
+};
+
+/**
+ * Rules matching a fill-blank answer to an accepted answer, strictest first
+ */
+const FILL_BLANK_RULES: {
+  rule: QuizAnswerMatchRule;
+  matches: (given: string, accepted: string, question: GradableQuestion) => boolean;
+}[] = [
+  {
+    rule: QuizAnswerMatchRule.EXACT,
+    matches: (given, accepted) => given.trim().toLowerCase() === accepted.trim().toLowerCase(),
+  },
+  {
+    rule: QuizAnswerMatchRule.NORMALIZED,
+    matches: (given, accepted) =>
+      normalizeText(accepted) !== '' && normalizeText(given) === normalizeText(accepted),
+  },
+  {
+    rule: QuizAnswerMatchRule.NUMERIC,
+    matches: (given, accepted) => {
+      const givenNumber = parseNumber(given);
+      const acceptedNumber = parseNumber(accepted);
+      return (
+        givenNumber !== null &&
+        acceptedNumber !== null &&
+        Math.abs(givenNumber - acceptedNumber) <= Math.abs(acceptedNumber) * 1e-9
+      );
+    },
+  },
+  {
+    rule: QuizAnswerMatchRule.TYPO,
+    matches: isWithinTypoTolerance,
+  },
+];
+
+/**
+ * The strictest rule by which a fill-blank answer matches any of the question's accepted
+ * answers, or null when it matches none
+ */
+const matchFillBlankAnswer = (
+  question: GradableQuestion,
+  text: string
+): QuizAnswerMatchRule | null => {
+  if (!text.trim()) return null;
+
+  const accepted = question.options.filter((option) => option.isCorrect);
+  const match = FILL_BLANK_RULES.find(({ matches }) =>
+    accepted.some((option) => matches(text, option.content, question))
+  );
+  return match ? match.rule : null;
+};
+
+const findOption = (question: GradableQuestion, optionId: string | null | undefined) =>
+  question.options.find((option) => option.id === optionId);
+
+const findMatch = (question: GradableQuestion, matchKey: string | null | undefined) =>
+  question.options.find((option) => option.match !== null && option.matchKey === matchKey);
+
+/**
+ * Share of the question's points an answer earns, from 0 to 1. Multi-select, ordering and
+ * matching questions give partial credit.
+ */
+const getCreditShare = (question: GradableQuestion, response: QuizAnswerResponse): number => {
+  const { options } = question;
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const correctAnswer = options.find((option) => option.isCorrect);
+      return correctAnswer && response.answerId === correctAnswer.id ? 1 : 0;
+    }
+    case 'multi-select': {
+      // Each wrong pick cancels out a right one
+      const correctIds = new Set(options.filter((o) => o.isCorrect).map((o) => o.id));
+      const picked = new Set(
+        (response.answerIds || []).filter((id) => options.some((o) => o.id === id))
+      );
+      if (correctIds.size === 0) return 0;
+      const hits = Array.from(picked).filter((id) => correctIds.has(id)).length;
+      return Math.max(0, (hits - (picked.size - hits)) / correctIds.size);
+    }
+    case 'ordering': {
+      // Options are stored in the correct order
+      const given = response.answerIds || [];
+      if (options.length === 0) return 0;
+      return options.filter((option, index) => given[index] === option.id).length / options.length;
+    }
+    case 'matching': {
+      const pairs = options.filter((option) => option.match !== null);
+      if (pairs.length === 0) return 0;
+      const given = new Map<string, string>();
+      (response.matches || []).forEach(({ optionId, matchId }) => {
+        if (!given.has(optionId)) given.set(optionId, matchId);
+      });
+      // Compared by text, since several prompts may share a match
+      const matched = pairs.filter(
+        (option) => findMatch(question, given.get(option.id))?.match === option.match
+      );
+      return matched.length / pairs.length;
+    }
+    case 'numeric':
+      return isNumericAnswerCorrect(question, response.text || '') ? 1 : 0;
+    case 'fill-blank':
+      return matchFillBlankAnswer(question, response.text || '') ? 1 : 0;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Grade an answer against the question's answer key
+ */
+export const gradeObjectiveAnswer = (
+  question: GradableQuestion,
+  response: QuizAnswerResponse
+): AnswerGrade => {
+  const maxPoints = question.points || 1;
+  const share = getCreditShare(question, response);
+  return {
+    pointsEarned: Math.round(share * maxPoints * 100) / 100,
+    isCorrect: share === 1,
+    gradedBy: QuizAnswerGrader.AUTO,
+    justification: null,
+  };
+};
+
+/**
+ * Grade an answer to a fill-blank question. Answers matching none of the accepted answers are
+ * checked by the LLM, when the question asks for it, since a synonym or rewording can still be
+ * right. Answers the LLM cannot check are marked wrong.
+ */
+export const gradeFillBlankAnswer = async (
+  question: GradableQuestion,
+  text: string
+): Promise<FillBlankGrade> => {
+  const maxPoints = question.points || 1;
+  const matchRule = matchFillBlankAnswer(question, text);
+
+  if (matchRule || !question.aiEquivalence || !text.trim()) {
+    return {
+      pointsEarned: matchRule ? maxPoints : 0,
+      isCorrect: !!matchRule,
+      gradedBy: QuizAnswerGrader.AUTO,
+      justification: null,
+      matchRule,
+    };
+  }
+
+  const accepted = question.options.filter((option) => option.isCorrect);
+  const prompt = `
+  You are checking a student's answer to a fill-in-the-blank quiz question. Decide whether the
+  answer means the same as one of the accepted answers in the context of the question, e.g. a
+  synonym, a different but correct name or an equivalent wording. Answers that are vaguer,
+  broader or only partly right are not equivalent.
+
+  Question: ${question.content}
+  Accepted answers: ${JSON.stringify(accepted.map((option) => option.content))}
+  Student's answer: ${JSON.stringify(text.trim())}
+
+  Respond with a JSON object following EXACTLY this structure:
+  {
+    "equivalent": true or false,
+    "justification": "One sentence explaining the decision to the student"
+  }`;
+
+  try {
+    const result = await getLLM('quiz').generateJSON<{
+      equivalent?: unknown;
+      justification?: unknown;
+    }>(prompt, { maxOutputTokens: 256, temperature: 0 });
+
+    if (typeof result?.equivalent !== 'boolean') {
+      throw new Error('Equivalence check response is missing a decision');
+    }
+
+    return {
+      pointsEarned: result.equivalent ? maxPoints : 0,
+      isCorrect: result.equivalent,
+      gradedBy: QuizAnswerGrader.AI,
+      justification: typeof result.justification === 'string' ? result.justification.trim() : null,
+      matchRule: result.equivalent ? QuizAnswerMatchRule.AI_EQUIVALENT : null,
+    };
+  } catch (error) {
+    console.error(
+      `[QuizGradingService] Could not check equivalence of answer to question ${question.id}:`,
+      error
+    );
+    return {
+      pointsEarned: 0,
+      isCorrect: false,
+      gradedBy: QuizAnswerGrader.AUTO,
+      justification: null,
+      matchRule: null,
+    };
+  }
+};
+
+/**
+ * An answer in words, e.g. for asking the LLM to explain a mistake
+ */
+export const describeResponse = (question: GradableQuestion, response: QuizAnswerResponse) => {
+  switch (question.type) {
+    case 'multi-select':
+    case 'ordering':
+      return (response.answerIds || [])
+        .map((id) => findOption(question, id)?.content)
+        .filter(Boolean)
+        .join(question.type === 'ordering' ? ' → ' : ', ');
+    case 'matching':
+      return (response.matches || [])
+        .map(({ optionId, matchId }) => {
+          const option = findOption(question, optionId);
+          const match = findMatch(question, matchId);
+          return option && match ? `${option.content} → ${match.match}` : null;
+        })
+        .filter(Boolean)
+        .join('; ');
+    default:
+      return findOption(question, response.answerId)?.content || response.text || '';
+  }
+};
+
+/**
+ * The correct answer to a question in words
+ */
+export const describeCorrectAnswer = (question: GradableQuestion) => {
+  switch (question.type) {
+    case 'ordering':
+      return question.options.map((option) => option.content).join(' → ');
+    case 'matching':
+      return question.options
+        .filter((option) => option.match !== null)
+        .map((option) => `${option.content} → ${option.match}`)
+        .join('; ');
+    case 'numeric':
+      return question.numericAnswer === null
+        ? ''
+        : [
+            question.numericAnswer,
+            question.tolerance ? `± ${question.tolerance}` : null,
+            question.unit,
+          ]
+            .filter((part) => part !== null && part !== '')
+            .join(' ');
+    default:
+      return question.options
+        .filter((option) => option.isCorrect)
+        .map((option) => option.content)
+        .join(', ');
+  }
+};
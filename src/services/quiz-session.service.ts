@@ -0,0 +1,222 @@
+import { Prisma, QuizSession, QuizSessionAnswer, QuizSessionStatus } from '@prisma/client';
+import db from '../db/db';
+import { enqueueJob, JobContext, registerJobHandler } from './job-queue.service';
+import {
+  formatQuizAttempt,
+  formatQuizQuestionForTaking,
+  quizAttemptAnswersInclude,
+  quizQuestionsInclude,
+  recordQuizAttempt,
+} from './quiz.service';
+import { QuizAnswerMatch, QuizAnswerResponse } from './quiz-grading.service';
+
+export const FINALIZE_QUIZ_SESSION_JOB = 'finalize-quiz-session';
+
+export interface FinalizeQuizSessionPayload {
+  sessionId: string;
+}
+
+export interface QuizSessionAnswerInput extends QuizAnswerResponse {
+  questionId: string;
+}
+
+/**
+ * Answers that arrive this long after the deadline still count, to allow for network latency
+ */
+const DEADLINE_GRACE_MS = 5 * 1000;
+
+type QuizSessionWithAnswers = Prisma.QuizSessionGetPayload<{ include: { answers: true } }>;
+type QuizWithQuestions = Prisma.QuizGetPayload<{ include: typeof quizQuestionsInclude }>;
+
+/**
+ * Whether a session's time limit has run out
+ */
+export const isQuizSessionExpired = (
+  session: Pick<QuizSession, 'expiresAt'>,
+  now: Date = new Date()
+): boolean =>
+  !!session.expiresAt && now.getTime() >= session.expiresAt.getTime() + DEADLINE_GRACE_MS;
+
+/**
+ * Seconds left before a session's deadline, or null for untimed quizzes
+ */
+export const getRemainingSeconds = (session: Pick<QuizSession, 'expiresAt'>): number | null =>
+  session.expiresAt
+    ? Math.max(0, Math.ceil((session.expiresAt.getTime() - Date.now()) / 1000))
+    : null;
+
+export const formatQuizSessionAnswer = (answer: QuizSessionAnswer) => ({
+  questionId: answer.questionId,
+  answerId: answer.answerId,
+  answerIds: answer.answerIds,
+  matches: answer.matches as QuizAnswerMatch[] | null,
+  text: answer.text,
+});
+
+/**
+ * A session along with the quiz being taken. Questions are shown without their correct answers.
+ */
+export const formatQuizSession = (session: QuizSessionWithAnswers, quiz: QuizWithQuestions) => ({
+  id: session.id,
+  quizId: session.quizId,
+  status: session.status,
+  startedAt: session.startedAt,
+  expiresAt: session.expiresAt,
+  remainingSeconds: getRemainingSeconds(session),
+  answers: session.answers.map(formatQuizSessionAnswer),
+  quiz: {
+    id: quiz.id,
+    title: quiz.title,
+    description: quiz.description,
+    difficulty: quiz.difficulty,
+    questionCount: quiz.questionCount,
+    timeLimit: quiz.timeLimit,
+    passingScore: quiz.passingScore,
+    questions: quiz.questions.map(formatQuizQuestionForTaking),
+  },
+});
+
+/**
+ * The user's unfinished session of a quiz, if any
+ */
+export const getActiveQuizSession = (quizId: string, userId: string) =>
+  db.quizSession.findFirst({
+    where: { quizId, userId, status: QuizSessionStatus.ACTIVE },
+    orderBy: { startedAt: 'desc' },
+    include: { answers: true },
+  });
+
+/**
+ * Start taking a quiz. Timed quizzes get a deadline from their time limit (in minutes), after
+ * which the session is submitted automatically with the answers saved so far.
+ */
+export const startQuizSession = async (
+  quiz: { id: string; timeLimit: number | null },
+  userId: string
+) => {
+  const startedAt = new Date();
+  const session = await db.quizSession.create({
+    data: {
+      quizId: quiz.id,
+      userId,
+      startedAt,
+      expiresAt: quiz.timeLimit ? new Date(startedAt.getTime() + quiz.timeLimit * 60 * 1000) : null,
+    },
+    include: { answers: true },
+  });
+
+  if (session.expiresAt) {
+    await enqueueJob(
+      FINALIZE_QUIZ_SESSION_JOB,
+      { sessionId: session.id },
+      { runAt: new Date(session.expiresAt.getTime() + DEADLINE_GRACE_MS) }
+    );
+  }
+
+  console.log(`[QuizSessionService] Started session ${session.id} of quiz ${quiz.id}`);
+  return session;
+};
+
+/**
+ * Save answers given so far, replacing earlier answers to the same questions
+ */
+export const saveQuizSessionAnswers = async (
+  sessionId: string,
+  answers: QuizSessionAnswerInput[]
+) => {
+  await db.$transaction(
+    answers.map((answer) => {
+      const data = {
+        answerId: answer.answerId ?? null,
+        answerIds: answer.answerIds ?? [],
+        matches: answer.matches
+          ? answer.matches.map(({ optionId, matchId }) => ({ optionId, matchId }))
+          : Prisma.DbNull,
+        text: answer.text ?? null,
+      };
+      return db.quizSessionAnswer.upsert({
+        where: { sessionId_questionId: { sessionId, questionId: answer.questionId } },
+        create: { sessionId, questionId: answer.questionId, ...data },
+        update: data,
+      });
+    })
+  );
+
+  return db.quizSessionAnswer.findMany({ where: { sessionId } });
+};
+
+/**
+ * Score a session as an attempt. Answers passed here are combined with the saved ones, unless
+ * the deadline has passed, in which case only answers saved in time count. Sessions are scored
+ * once: finalizing an ended session returns its attempt, or null while it is still being scored.
+ */
+export const finalizeQuizSession = async (
+  sessionId: string,
+  answers: QuizSessionAnswerInput[] = []
+) => {
+  const session = await db.quizSession.findUnique({
+    where: { id: sessionId },
+    include: { answers: true },
+  });
+  if (!session) return null;
+
+  const now = new Date();
+  const expired = isQuizSessionExpired(session, now);
+  const endedAt = expired && session.expiresAt ? session.expiresAt : now;
+
+  // Claim the session so a submission racing the deadline job cannot score it twice
+  const { count } = await db.quizSession.updateMany({
+    where: { id: sessionId, status: QuizSessionStatus.ACTIVE },
+    data: {
+      status: expired ? QuizSessionStatus.EXPIRED : QuizSessionStatus.SUBMITTED,
+      endedAt,
+    },
+  });
+  if (count === 0) {
+    const attempt = await db.quizAttempt.findUnique({
+      where: { sessionId },
+      include: quizAttemptAnswersInclude,
+    });
+    return attempt ? formatQuizAttempt(attempt) : null;
+  }
+
+  const answersByQuestion = new Map<string, QuizSessionAnswerInput>(
+    session.answers.map((answer) => [answer.questionId, formatQuizSessionAnswer(answer)])
+  );
+  if (!expired) {
+    answers.forEach((answer) => answersByQuestion.set(answer.questionId, answer));
+  }
+
+  try {
+    const attempt = await recordQuizAttempt(
+      session.quizId,
+      session.userId,
+      Array.from(answersByQuestion.values()),
+      session.startedAt,
+      { sessionId, completedAt: endedAt }
+    );
+    console.log(
+      `[QuizSessionService] ${expired ? 'Time ran out for' : 'Submitted'} session ${sessionId}`
+    );
+    return attempt;
+  } catch (error) {
+    // Let the session be submitted again
+    await db.quizSession.update({
+      where: { id: sessionId },
+      data: { status: QuizSessionStatus.ACTIVE, endedAt: null },
+    });
+    throw error;
+  }
+};
+
+registerJobHandler<FinalizeQuizSessionPayload>(FINALIZE_QUIZ_SESSION_JOB, {
+  run: async ({ payload }: JobContext<FinalizeQuizSessionPayload>) => {
+    const session = await db.quizSession.findUnique({
+      where: { id: payload.sessionId },
+      select: { status: true },
+    });
+    if (session?.status !== QuizSessionStatus.ACTIVE) return;
+
+    await finalizeQuizSession(payload.sessionId);
+  },
+});
@@ -1,20 +1,171 @@
-import { VertexAI } from '@google-cloud/vertexai';
+import crypto from 'crypto';
+import { Prisma, QuizAnswerGrader } from '@prisma/client';
 import db from '../db/db';
-import { updateQuizAverage } from './stats.service';
+import { recalculateQuizAverage, updateQuizAverage } from './stats.service';
+import { getLLM } from './llm';
+import {
+  describeCorrectAnswer,
+  describeResponse,
+  gradeFillBlankAnswer,
+  gradeObjectiveAnswer,
+  gradeOpenEndedAnswer,
+  isChoiceQuestion,
+  isCorrectForPoints,
+  isOpenEndedQuestion,
+  QuizAnswerMatch,
+  QuizAnswerResponse,
+} from './quiz-grading.service';
 
-const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'learnability-project';
-const LOCATION = 'us-central1';
-const MODEL_NAME = 'gemini-2.5-flash';
+/**
+ * Questions of a quiz with their answer options, in quiz order
+ */
+export const quizQuestionsInclude = {
+  questions: {
+    orderBy: { order: 'asc' },
+    include: { options: { orderBy: { order: 'asc' } } },
+  },
+} satisfies Prisma.QuizInclude;
+
+/**
+ * Answers of an attempt, in the order of the quiz's questions
+ */
+export const quizAttemptAnswersInclude = {
+  answers: { orderBy: { question: { order: 'asc' } } },
+} satisfies Prisma.QuizAttemptInclude;
 
-let vertexAI: VertexAI;
-let generativeModel: any;
+type QuizQuestionWithOptions = Prisma.QuizQuestionGetPayload<{ include: { options: true } }>;
+type QuizAttemptWithAnswers = Prisma.QuizAttemptGetPayload<{ include: { answers: true } }>;
 
-try {
-  vertexAI = new VertexAI({ project: PROJECT_ID, location: LOCATION });
-  generativeModel = vertexAI.getGenerativeModel({ model: MODEL_NAME });
-} catch (error) {
-  console.error('Error initializing Vertex AI client:', error);
-}
+/**
+ * A question in the format quizzes are generated in, which is also how the app shows them
+ */
+export const formatQuizQuestion = (question: QuizQuestionWithOptions) => ({
+  id: question.id,
+  content: question.content,
+  type: question.type,
+  difficulty: question.difficulty,
+  points: question.points,
+  explanation: question.explanation,
+  numericAnswer: question.numericAnswer,
+  tolerance: question.tolerance,
+  unit: question.unit,
+  typoTolerance: question.typoTolerance,
+  aiEquivalence: question.aiEquivalence,
+  answers: question.options.map((option) => ({
+    id: option.id,
+    content: option.content,
+    isCorrect: option.isCorrect,
+    explanation: option.explanation,
+    match: option.match,
+  })),
+});
+
+/**
+ * Shuffle items the same way every time for a given seed, so a quiz looks the same when it is
+ * reloaded
+ */
+const shuffleStable = <T extends { id: string }>(seed: string, items: T[]): T[] => {
+  const keys = new Map(
+    items.map((item) => [
+      item.id,
+      crypto.createHash('sha256').update(`${seed}:${item.id}`).digest('hex'),
+    ])
+  );
+  return items
+    .slice()
+    .sort((a, b) => ((keys.get(a.id) as string) < (keys.get(b.id) as string) ? -1 : 1));
+};
+
+/**
+ * A question as shown to someone taking the quiz, without which answers are correct or the
+ * explanations that would give them away. Only questions answered by picking options show
+ * them; ordering items and matches are shuffled, since their stored order is the answer.
+ */
+export const formatQuizQuestionForTaking = (question: QuizQuestionWithOptions) => {
+  const answers = isChoiceQuestion(question)
+    ? question.options.map((option) => ({ id: option.id, content: option.content }))
+    : [];
+
+  return {
+    id: question.id,
+    content: question.content,
+    type: question.type,
+    difficulty: question.difficulty,
+    points: question.points,
+    unit: question.unit,
+    answers: question.type === 'ordering' ? shuffleStable(question.id, answers) : answers,
+    ...(question.type === 'matching' && {
+      matches: shuffleStable(
+        `${question.id}:matches`,
+        question.options
+          .filter((option) => option.match !== null)
+          .map((option) => ({ id: option.matchKey, content: option.match as string }))
+      ),
+    }),
+  };
+};
+
+/**
+ * A quiz with its questions in the format quizzes are generated in
+ */
+export const formatQuiz = <T extends { questions: QuizQuestionWithOptions[] }>(quiz: T) => ({
+  ...quiz,
+  questions: quiz.questions.map(formatQuizQuestion),
+});
+
+export const formatQuizAttempt = (attempt: QuizAttemptWithAnswers) => ({
+  id: attempt.id,
+  userId: attempt.userId,
+  score: attempt.score,
+  maxScore: attempt.maxScore,
+  percentage: attempt.percentage,
+  passed: attempt.passed,
+  startedAt: attempt.startedAt,
+  completedAt: attempt.completedAt,
+  answers: attempt.answers.map((answer) => ({
+    questionId: answer.questionId,
+    givenAnswer: answer.selectedOptionId || answer.text || answer.selectedOptionIds.join(',') || '',
+    answerIds: answer.selectedOptionIds,
+    matches: answer.matches as QuizAnswerMatch[] | null,
+    isCorrect: answer.isCorrect,
+    pointsEarned: answer.pointsEarned,
+    feedback: answer.feedback,
+    gradedBy: answer.gradedBy,
+    justification: answer.justification,
+    matchRule: answer.matchRule,
+    needsReview: answer.needsReview,
+    originalPointsEarned: answer.originalPointsEarned,
+    overriddenAt: answer.overriddenAt,
+    overriddenById: answer.overriddenById,
+  })),
+});
+
+/**
+ * Nested create input for questions in the generated format
+ */
+const toQuestionsCreateInput = (questions: any[]): Prisma.QuizQuestionCreateWithoutQuizInput[] =>
+  questions.map((question, order) => ({
+    order,
+    content: question.content,
+    type: question.type || 'multiple-choice',
+    difficulty: question.difficulty || null,
+    points: question.points || 1,
+    explanation: question.explanation || null,
+    numericAnswer: question.numericAnswer?.value ?? null,
+    tolerance: question.numericAnswer?.tolerance ?? null,
+    unit: question.numericAnswer?.unit || null,
+    typoTolerance: question.typoTolerance ?? null,
+    aiEquivalence: !!question.aiEquivalence,
+    options: {
+      create: (question.answers || []).map((answer: any, answerOrder: number) => ({
+        order: answerOrder,
+        content: answer.content,
+        isCorrect: !!answer.isCorrect,
+        explanation: answer.explanation || null,
+        match: answer.match ?? null,
+      })),
+    },
+  }));
 
 /**
  * Generate a quiz based on a subject
@@ -30,10 +181,6 @@ export const generateQuiz = async (
   } = {}
 ): Promise<any> => {
   try {
-    if (!generativeModel) {
-      throw new Error('Gemini model not initialized');
-    }
-
     const subject = await db.subject.findUnique({
       where: { id: subjectId },
       include: {
@@ -63,8 +210,8 @@ export const generateQuiz = async (
     let contextContent = '';
     if (subject.dataSources && subject.dataSources.length > 0) {
       contextContent = subject.dataSources
-        .filter((ds: { content?: string }) => ds.content)
-        .map((ds: { content?: string }) => ds.content)
+        .filter((ds: { content: string | null }) => ds.content)
+        .map((ds: { content: string | null }) => ds.content)
         .join('\n\n')
         .substring(0, 10000);
     }
@@ -112,58 +259,40 @@ export const generateQuiz = async (
     }
     
     Guidelines:
-    - Create varied question types, with most being multiple-choice
+    - Create varied question types (multiple-choice, true-false, multi-select, ordering, matching, numeric, fill-blank, short-answer, essay), with most being multiple-choice
     - For each multiple-choice question, include 3-4 plausible options with only one correct answer
     - For true-false questions, provide clear statements that are definitely true or false
-    - For fill-in-the-blank questions, make sure the answer is specific and unambiguous
+    - For multi-select questions, include 4-6 options and mark every correct one with "isCorrect": true
+    - For ordering questions (e.g. steps of a process or events in time), list the answers in the correct order
+    - For matching questions, give each answer the item it pairs with as "match", e.g. { "content": "Mitochondria", "match": "Produces ATP" }
+    - For numeric questions (calculations, measurements), leave "answers" empty and add "numericAnswer": { "value": 9.81, "tolerance": 0.05, "unit": "m/s^2" }, using the tolerance a correct calculation could be off by and null for the unit of unitless numbers
+    - For fill-in-the-blank questions, make sure the answer is specific and unambiguous, and add every other accepted answer (synonyms, alternative names or spellings) as another answer with "isCorrect": true
+    - For short-answer questions, expect a sentence or two and list the key points a good answer covers in the explanation
     - For essay questions, include evaluation criteria in the explanation
     - Make questions progressively more difficult throughout the quiz
     - Do not include any text or explanation outside the JSON format
     `;
 
-    const result = await generativeModel.generateContent({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              text: `${systemPrompt}\n\nContext:\n${
-                contextContent || 'Create a quiz based on general knowledge of this subject.'
-              }`,
-            },
-          ],
-        },
-      ],
-      generationConfig: {
+    const quizData = await getLLM('quiz').generateJSON(
+      `${systemPrompt}\n\nContext:\n${
+        contextContent || 'Create a quiz based on general knowledge of this subject.'
+      }`,
+      {
         maxOutputTokens: 8192,
         temperature: 0.7,
         topP: 0.95,
-        responseMimeType: 'application/json',
-      },
-    });
-
-    const response = result.response;
-    if (!response || !response.candidates || response.candidates.length === 0) {
-      throw new Error('No response candidates returned');
-    }
-
-    const responseText = response.candidates[0].content.parts[0].text;
-
-    let jsonStart = responseText.indexOf('{');
-    let jsonEnd = responseText.lastIndexOf('}') + 1;
+      }
+    );
 
-    if (jsonStart === -1 || jsonEnd === 0) {
+    if (!quizData || !Array.isArray(quizData.questions)) {
       throw new Error('Invalid JSON response format');
     }
 
-    const jsonStr = responseText.substring(jsonStart, jsonEnd);
-    const quizData = JSON.parse(jsonStr);
-
     quizData.questionCount = quizData.questions.length;
 
     return quizData;
   } catch (error) {
-    console.error('Error generating quiz with Gemini:', error);
+    console.error('Error generating quiz:', error);
     throw new Error(
       `Failed to generate quiz: ${error instanceof Error ? error.message : String(error)}`
     );
@@ -188,15 +317,15 @@ export const saveQuiz = async (
         questionCount: quizData.questions?.length || 0,
         timeLimit: quizData.timeLimit,
         passingScore: quizData.passingScore,
-        questions: quizData.questions,
-        attempts: [],
+        questions: { create: toQuestionsCreateInput(quizData.questions || []) },
         userId,
         subjectId,
         lessonId: lessonId || null,
       },
+      include: quizQuestionsInclude,
     });
 
-    return quiz;
+    return formatQuiz(quiz);
   } catch (error) {
     console.error('Error saving quiz:', error);
     throw new Error(
@@ -205,6 +334,85 @@ export const saveQuiz = async (
   }
 };
 
+const getAttemptResult = (score: number, maxScore: number, passingScore: number) => ({
+  percentage: maxScore > 0 ? Math.round((score / maxScore) * 100) : 0,
+  passed: maxScore > 0 ? (score / maxScore) * 100 >= passingScore : false,
+});
+
+/**
+ * Ask the LLM to explain why an answer is wrong
+ */
+const generateAnswerFeedback = async (
+  question: QuizQuestionWithOptions,
+  givenAnswer: string
+): Promise<string> => {
+  const prompt = `
+  Analyze the following ${question.type} quiz question and the user's incorrect answer. Provide concise, helpful feedback explaining why the correct answer is right and potentially why the user's answer was wrong.
+
+  Question: ${question.content}
+  Options: ${JSON.stringify(question.options.map((option) => option.content))}
+  Correct Answer: ${describeCorrectAnswer(question) || 'N/A'}
+  User's Answer: ${givenAnswer || 'N/A'}
+  Existing Explanation (if any): ${question.explanation || 'None'}
+
+  Feedback:`;
+
+  try {
+    const result = await getLLM('quiz').generateText(prompt, {
+      maxOutputTokens: 200,
+      temperature: 0.5,
+    });
+    return result.trim() || 'Could not generate feedback.';
+  } catch (error) {
+    console.error(`Error generating feedback on question ${question.id}:`, error);
+    return 'Error generating feedback.';
+  }
+};
+
+/**
+ * Grade one answer. Open-ended answers are graded by the LLM, which explains the grade; answers
+ * to other questions that miss any points get LLM feedback instead.
+ */
+const scoreAnswer = async (question: QuizQuestionWithOptions, userAnswer: QuizAnswerResponse) => {
+  const questionPoints = question.points || 1;
+  const optionIds = new Set(question.options.map((option) => option.id));
+  const matchKeys = new Set(question.options.map((option) => option.matchKey));
+  const selectedOption = question.options.find((option) => option.id === userAnswer.answerId);
+  const matches = (userAnswer.matches || []).filter(
+    ({ optionId, matchId }) => optionIds.has(optionId) && matchKeys.has(matchId)
+  );
+  const answer = {
+    questionId: question.id,
+    selectedOptionId: selectedOption?.id || null,
+    selectedOptionIds: (userAnswer.answerIds || []).filter((id) => optionIds.has(id)),
+    matches:
+      matches.length > 0
+        ? matches.map(({ optionId, matchId }) => ({ optionId, matchId }))
+        : undefined,
+    text: selectedOption ? null : userAnswer.text || userAnswer.answerId || null,
+  };
+
+  if (isOpenEndedQuestion(question)) {
+    const grade = await gradeOpenEndedAnswer(
+      { ...question, points: questionPoints },
+      userAnswer.text || ''
+    );
+    return { ...answer, ...grade, feedback: null };
+  }
+
+  const grade =
+    question.type === 'fill-blank'
+      ? await gradeFillBlankAnswer({ ...question, points: questionPoints }, userAnswer.text || '')
+      : gradeObjectiveAnswer({ ...question, points: questionPoints }, userAnswer);
+  return {
+    ...answer,
+    ...grade,
+    feedback: grade.isCorrect
+      ? null
+      : await generateAnswerFeedback(question, describeResponse(question, userAnswer)),
+  };
+};
+
 /**
  * Record a quiz attempt
  */
@@ -212,143 +420,57 @@ export const recordQuizAttempt = async (
   quizId: string,
   userId: string,
   userAnswers: any[],
-  startedAt: Date
+  startedAt: Date,
+  options: { sessionId?: string; completedAt?: Date } = {}
 ): Promise<any> => {
   try {
-    if (!generativeModel) {
-      throw new Error('Gemini model not initialized');
-    }
-
     const quiz = await db.quiz.findUnique({
       where: { id: quizId },
+      include: quizQuestionsInclude,
     });
 
     if (!quiz) {
       throw new Error('Quiz not found');
     }
 
-    const questions = quiz.questions as any[];
-    let score = 0;
-    let maxScore = 0;
-    const feedbackPromises: Promise<any>[] = [];
-
-    const scoredAnswers = userAnswers
-      .map((userAnswer) => {
-        const question = questions.find((q) => q.id === userAnswer.questionId);
-        if (!question) return null;
-
-        const questionPoints = question.points || 1;
-        maxScore += questionPoints;
-        let isCorrect = false;
-        let pointsEarned = 0;
-        let feedback: string | null = null;
-
-        if (question.type === 'essay') {
-          isCorrect = false;
-          pointsEarned = 0;
-        } else if (question.type === 'multiple-choice' || question.type === 'true-false') {
-          const correctAnswer = question.answers.find((a: any) => a.isCorrect);
-          if (correctAnswer && userAnswer.answerId === correctAnswer.id) {
-            isCorrect = true;
-            pointsEarned = questionPoints;
-            score += questionPoints;
-          }
-        } else if (question.type === 'fill-blank') {
-          const correctAnswer = question.answers.find((a: any) => a.isCorrect);
-          if (
-            correctAnswer &&
-            userAnswer.text &&
-            correctAnswer.content.toLowerCase().trim() === userAnswer.text.toLowerCase().trim()
-          ) {
-            isCorrect = true;
-            pointsEarned = questionPoints;
-            score += questionPoints;
-          }
-        }
-
-        if (!isCorrect) {
-          const correctAnswerDetail = question.answers.find((a: any) => a.isCorrect);
-          const givenAnswerDetail = question.answers.find((a: any) => a.id === userAnswer.answerId);
-
-          const prompt = `
-          Analyze the following quiz question and the user's incorrect answer. Provide concise, helpful feedback explaining why the correct answer is right and potentially why the user's answer was wrong.
-
-          Question: ${question.content}
-          Options: ${JSON.stringify(question.answers.map((a: any) => a.content))}
-          Correct Answer: ${correctAnswerDetail?.content || 'N/A'}
-          User's Answer: ${givenAnswerDetail?.content || userAnswer.text || 'N/A'}
-          Existing Explanation (if any): ${question.explanation || 'None'}
-
-          Feedback:`;
-
-          feedbackPromises.push(
-            generativeModel
-              .generateContent({
-                contents: [{ role: 'user', parts: [{ text: prompt }] }],
-                generationConfig: {
-                  maxOutputTokens: 200,
-                  temperature: 0.5,
-                },
-              })
-              .then((result: any) => {
-                try {
-                  const feedbackText =
-                    result?.response?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() ||
-                    'Could not generate feedback.';
-                  return { questionId: question.id, feedback: feedbackText };
-                } catch (e) {
-                  console.error(`Error processing Gemini feedback for question ${question.id}:`, e);
-                  return { questionId: question.id, feedback: 'Error generating feedback.' };
-                }
-              })
-              .catch((error: any) => {
-                console.error(
-                  `Error calling Gemini for feedback on question ${question.id}:`,
-                  error
-                );
-                return { questionId: question.id, feedback: 'Error generating feedback.' };
-              })
-          );
-        }
-
-        return {
-          questionId: question.id,
-          givenAnswer: userAnswer.answerId || userAnswer.text || '',
-          isCorrect,
-          pointsEarned,
-        };
-      })
-      .filter((answer): answer is NonNullable<typeof answer> => answer !== null);
-
-    const attempt = {
-      id: `attempt_${Date.now()}`,
-      userId,
-      score,
-      maxScore,
-      percentage: maxScore > 0 ? Math.round((score / maxScore) * 100) : 0,
-      passed: maxScore > 0 ? (score / maxScore) * 100 >= quiz.passingScore : false,
-      startedAt: startedAt.toISOString(),
-      completedAt: new Date().toISOString(),
-      answers: scoredAnswers,
-      feedback: [],
-    };
-
-    const feedbackResults = await Promise.all(feedbackPromises);
-    const feedbackMap = new Map(feedbackResults.map((f) => [f.questionId, f.feedback]));
-
-    attempt.answers = attempt.answers.map((ans) => ({
-      ...ans,
-      feedback: feedbackMap.get(ans.questionId) || null,
-    }));
-
-    let attempts = (quiz.attempts as any[]) || [];
-    attempts.push(attempt);
-
-    await db.quiz.update({
-      where: { id: quizId },
+    const questionsById = new Map(quiz.questions.map((question) => [question.id, question]));
+    const answers = new Map<string, { question: QuizQuestionWithOptions; userAnswer: any }>();
+    for (const userAnswer of userAnswers) {
+      const question = questionsById.get(userAnswer.questionId);
+      // Only the first answer to each question counts
+      if (question && !answers.has(question.id)) {
+        answers.set(question.id, { question, userAnswer });
+      }
+    }
+
+    const scoredAnswers = await Promise.all(
+      Array.from(answers.values()).map(({ question, userAnswer }) =>
+        scoreAnswer(question, userAnswer)
+      )
+    );
+
+    // Questions left unanswered count as wrong, so skipping questions cannot raise the score
+    const unansweredQuestions = quiz.questions
+      .filter((question) => !answers.has(question.id))
+      .map((question) => ({ questionId: question.id, isCorrect: false, pointsEarned: 0 }));
+
+    const score = scoredAnswers.reduce((sum, answer) => sum + answer.pointsEarned, 0);
+    const maxScore = quiz.questions.reduce((sum, question) => sum + (question.points || 1), 0);
+
+    // Each attempt is its own row, so concurrent submissions cannot overwrite each other
+    const attempt = await db.quizAttempt.create({
       data: {
-        attempts,
+        quizId,
+        userId,
+        score,
+        maxScore,
+        ...getAttemptResult(score, maxScore, quiz.passingScore),
+        startedAt,
+        completedAt: options.completedAt,
+        sessionId: options.sessionId,
+        answers: { create: [...scoredAnswers, ...unansweredQuestions] },
       },
+      include: quizAttemptAnswersInclude,
     });
 
     await updateQuizAverage(userId, attempt.percentage);
@@ -375,7 +497,7 @@ export const recordQuizAttempt = async (
       console.error('Error updating user stats:', error);
     }
 
-    return attempt;
+    return formatQuizAttempt(attempt);
   } catch (error) {
     console.error('Error recording quiz attempt:', error);
     throw new Error(
@@ -383,3 +505,63 @@ export const recordQuizAttempt = async (
     );
   }
 };
+
+/**
+ * Replace the grade of one answer in an attempt, e.g. a teacher regrading an essay, and
+ * update the attempt's score to match
+ */
+export const overrideQuizAnswerGrade = async (
+  attemptId: string,
+  questionId: string,
+  teacherId: string,
+  grade: { pointsEarned: number; justification?: string | null }
+) => {
+  const attempt = await db.$transaction(async (tx) => {
+    const { gradedBy, pointsEarned, question } = await tx.quizAttemptAnswer.findUniqueOrThrow({
+      where: { attemptId_questionId: { attemptId, questionId } },
+      select: {
+        gradedBy: true,
+        pointsEarned: true,
+        question: { select: { type: true, points: true } },
+      },
+    });
+
+    await tx.quizAttemptAnswer.update({
+      where: { attemptId_questionId: { attemptId, questionId } },
+      data: {
+        pointsEarned: grade.pointsEarned,
+        isCorrect: isCorrectForPoints(
+          { type: question.type, points: question.points || 1 },
+          grade.pointsEarned
+        ),
+        gradedBy: QuizAnswerGrader.TEACHER,
+        justification: grade.justification ?? null,
+        needsReview: false,
+        // Later overrides keep the score from before the first one
+        originalPointsEarned: gradedBy === QuizAnswerGrader.TEACHER ? undefined : pointsEarned,
+        overriddenAt: new Date(),
+        overriddenById: teacherId,
+      },
+    });
+
+    const { _sum } = await tx.quizAttemptAnswer.aggregate({
+      where: { attemptId },
+      _sum: { pointsEarned: true },
+    });
+    const { maxScore, quiz } = await tx.quizAttempt.findUniqueOrThrow({
+      where: { id: attemptId },
+      select: { maxScore: true, quiz: { select: { passingScore: true } } },
+    });
+    const score = _sum.pointsEarned || 0;
+
+    return tx.quizAttempt.update({
+      where: { id: attemptId },
+      data: { score, ...getAttemptResult(score, maxScore, quiz.passingScore) },
+      include: quizAttemptAnswersInclude,
+    });
+  });
+
+  console.log(`[QuizService] Grade of question ${questionId} in attempt ${attemptId} overridden`);
+  await recalculateQuizAverage(attempt.userId);
+  return formatQuizAttempt(attempt);
+};
@@ -0,0 +1,491 @@
+import db from '../db/db';
+import { searchEmbeddings } from './vector.service';
+import { searchKeyword } from './keyword-search.service';
+import { getLLM, parseJSONResponse } from './llm';
+import { formatTimestamp } from './transcription.service';
+
+export interface ContextChunk {
+  text: string;
+  score: number;
+  metadata: any;
+}
+
+export interface Citation {
+  marker: number;
+  dataSourceId: string | null;
+  dataSourceName: string | null;
+  chunkIndex: number | null;
+  lines: { from: number; to: number } | null;
+  /**
+   * Seconds into the recording, for excerpts of transcribed audio or video
+   */
+  startTime: number | null;
+  endTime: number | null;
+  /**
+   * startTime formatted as m:ss or h:mm:ss
+   */
+  timestamp: string | null;
+  snippet: string;
+  score: number;
+}
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface RetrievalOptions {
+  /**
+   * vector: embedding similarity only, keyword: Postgres full-text search only,
+   * hybrid: both, fused with reciprocal rank fusion
+   */
+  mode?: RetrievalMode;
+  topK?: number;
+  /**
+   * Let the LLM reorder the candidates by relevance before the top results are taken
+   */
+  rerank?: boolean;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface TutorAnswer {
+  answer: string;
+  confidence: string;
+  suggestions: string[];
+  citations: Citation[];
+}
+
+export const NO_CONTEXT_ANSWER = `I couldn't find any relevant information related to your question in the materials for this subject. Would you like to add more materials on this topic?`;
+
+export const SEARCH_UNAVAILABLE_ANSWER =
+  "I'm having trouble searching through your materials right now. This could be because the vector database is still initializing or needs maintenance. Please try again in a few moments.";
+
+const TUTOR_INSTRUCTIONS = `
+      You are a helpful AI tutor designed to help students learn.
+      Your knowledge comes from the provided context only.
+      If the context doesn't contain enough information to fully answer the question, acknowledge what you know
+      from the context and suggest what additional information might be needed.
+      Always be encouraging, clear, and explain concepts in a way that's easy to understand.
+      The context is split into numbered excerpts. Every statement taken from the context MUST be followed
+      by the marker of the excerpt it came from, e.g. "Mitochondria produce ATP [2].". Use several markers
+      when a statement draws on several excerpts, e.g. [1][3]. Never invent markers that are not in the context.
+      Excerpts from recordings show where they were said (e.g. at 12:30); mention that time when pointing
+      the student to a recording.
+`;
+
+/**
+ * Separates the streamed answer from the trailing metadata in streaming responses
+ */
+const META_MARKER = '===META===';
+
+const DEFAULT_TOP_K = 3;
+
+/**
+ * How many candidates each retriever returns per requested result when results are fused
+ * or reranked
+ */
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Damping constant of reciprocal rank fusion; 60 is the value from the original paper
+ */
+const RRF_K = 60;
+
+const chunkKey = (chunk: ContextChunk) =>
+  chunk.metadata?.dataSourceId && chunk.metadata?.chunk_id !== undefined
+    ? `${chunk.metadata.dataSourceId}:${chunk.metadata.chunk_id}`
+    : chunk.text;
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion: each chunk scores the sum of
+ * 1 / (RRF_K + rank) over the lists it appears in. The fused score replaces the
+ * retrievers' own scores, which are not comparable.
+ */
+const fuseResults = (resultLists: ContextChunk[][]): ContextChunk[] => {
+  const fused = new Map<string, { chunk: ContextChunk; score: number }>();
+
+  for (const results of resultLists) {
+    results.forEach((chunk, index) => {
+      const key = chunkKey(chunk);
+      const entry = fused.get(key) || { chunk, score: 0 };
+      entry.score += 1 / (RRF_K + index + 1);
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => ({ ...entry.chunk, score: entry.score }));
+};
+
+/**
+ * Reorder candidates by asking the LLM how well each one answers the query. The original
+ * order is kept if reranking fails.
+ */
+const rerankChunks = async (query: string, chunks: ContextChunk[]): Promise<ContextChunk[]> => {
+  const prompt = `
+      Rate how useful each passage is for answering the question, from 0 (irrelevant) to 10 (answers it directly).
+      Respond with a JSON object in the following format:
+      {"scores": [{"index": <passage number>, "score": <0-10>}]}
+
+      Question: ${query}
+
+      ${chunks.map((chunk, index) => `Passage ${index + 1}:\n${chunk.text.substring(0, 1000)}`).join('\n\n')}
+    `;
+
+  try {
+    const result = await getLLM('rerank').generateJSON<{
+      scores?: { index: number; score: number }[];
+    }>(prompt, { temperature: 0, maxOutputTokens: 1024 });
+
+    const scores = new Map<number, number>();
+    for (const item of result?.scores || []) {
+      if (typeof item?.index === 'number' && typeof item?.score === 'number') {
+        scores.set(item.index - 1, item.score);
+      }
+    }
+
+    return chunks
+      .map((chunk, index) => ({ chunk, index, score: scores.get(index) ?? -1 }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map((entry) => entry.chunk);
+  } catch (error) {
+    console.error('[RAGService] Reranking failed, keeping retrieval order:', error);
+    return chunks;
+  }
+};
+
+/**
+ * Retrieve the chunks most relevant to a query from the user's materials,
+ * optionally restricted to a subject
+ */
+export const retrieveContext = async (
+  userId: string,
+  query: string,
+  subjectId?: string,
+  options: RetrievalOptions = {}
+): Promise<ContextChunk[]> => {
+  const { mode = 'hybrid', topK = DEFAULT_TOP_K, rerank = false } = options;
+  const searchOptions: {
+    topK?: number;
+    subjectId?: string;
+    dataSourceIds?: string[];
+  } = {
+    topK: mode === 'hybrid' || rerank ? topK * CANDIDATE_MULTIPLIER : topK,
+  };
+
+  if (subjectId) {
+    console.log(`Searching for data sources in subject: ${subjectId}`);
+    const dataSources = await db.dataSource.findMany({
+      where: { userId, subjectId },
+      select: { id: true },
+    });
+
+    const dataSourceIds = dataSources.map((ds: { id: string }) => ds.id);
+    console.log(`Found ${dataSourceIds.length} data sources in this subject`);
+
+    if (dataSourceIds.length > 0) {
+      searchOptions.dataSourceIds = dataSourceIds;
+    } else {
+      console.log('No data sources found, falling back to subject ID search');
+      searchOptions.subjectId = subjectId;
+    }
+  }
+
+  console.log('Search options:', { ...searchOptions, mode, rerank });
+  const [vectorResults, keywordResults] = await Promise.all([
+    mode !== 'keyword' ? searchEmbeddings(query, userId, searchOptions) : Promise.resolve([]),
+    mode === 'keyword'
+      ? searchKeyword(query, userId, searchOptions)
+      : mode === 'hybrid'
+        ? searchKeyword(query, userId, searchOptions).catch((error) => {
+            console.error('[RAGService] Keyword search failed, using vector results only:', error);
+            return [];
+          })
+        : Promise.resolve([]),
+  ]);
+
+  let contextChunks: ContextChunk[] =
+    mode === 'hybrid'
+      ? fuseResults([vectorResults, keywordResults])
+      : mode === 'keyword'
+        ? keywordResults
+        : vectorResults;
+
+  if (rerank && contextChunks.length > 1) {
+    contextChunks = await rerankChunks(query, contextChunks);
+  }
+
+  contextChunks = contextChunks.slice(0, topK);
+  console.log(
+    `Found ${contextChunks.length} context chunks (${vectorResults.length} vector, ${keywordResults.length} keyword candidates)`
+  );
+
+  return contextChunks;
+};
+
+/**
+ * The chunks an answer was based on, in the shape returned to clients
+ */
+export const buildSources = (chunks: ContextChunk[]) =>
+  chunks.map((chunk) => ({
+    dataSourceId: chunk.metadata?.dataSourceId || null,
+    chunkId: chunk.metadata?.chunk_id ?? null,
+    score: chunk.score,
+    snippet: chunk.text.substring(0, 200),
+  }));
+
+export interface SourceDetails {
+  names: Map<string, string>;
+  /**
+   * Recording time ranges of transcribed chunks, keyed by chunkKey
+   */
+  times: Map<string, { startTime: number; endTime: number }>;
+}
+
+/**
+ * Look up the names of the data sources the chunks came from, and where in a recording
+ * transcribed chunks were spoken
+ */
+const loadSourceDetails = async (chunks: ContextChunk[]): Promise<SourceDetails> => {
+  const ids = Array.from(
+    new Set(chunks.map((chunk) => chunk.metadata?.dataSourceId).filter(Boolean))
+  ) as string[];
+  if (ids.length === 0) return { names: new Map(), times: new Map() };
+
+  const located = chunks.filter(
+    (chunk) => chunk.metadata?.dataSourceId && typeof chunk.metadata?.chunk_id === 'number'
+  );
+  const [dataSources, timedChunks] = await Promise.all([
+    db.dataSource.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    }),
+    located.length > 0
+      ? db.dataSourceChunk.findMany({
+          where: {
+            startTime: { not: null },
+            OR: located.map((chunk) => ({
+              dataSourceId: chunk.metadata.dataSourceId,
+              order: chunk.metadata.chunk_id,
+            })),
+          },
+          select: { dataSourceId: true, order: true, startTime: true, endTime: true },
+        })
+      : [],
+  ]);
+
+  return {
+    names: new Map(dataSources.map((ds: { id: string; name: string }) => [ds.id, ds.name])),
+    times: new Map(
+      timedChunks.map((chunk) => [
+        `${chunk.dataSourceId}:${chunk.order}`,
+        {
+          startTime: chunk.startTime as number,
+          endTime: (chunk.endTime ?? chunk.startTime) as number,
+        },
+      ])
+    ),
+  };
+};
+
+const getChunkTime = (chunk: ContextChunk, sources: SourceDetails) =>
+  sources.times.get(chunkKey(chunk)) || null;
+
+const buildContextText = (chunks: ContextChunk[], sources: SourceDetails) =>
+  chunks
+    .map((chunk, index) => {
+      const name = sources.names.get(chunk.metadata?.dataSourceId);
+      const time = getChunkTime(chunk, sources);
+      const origin = [
+        name ? `from "${name}"` : null,
+        time ? `at ${formatTimestamp(time.startTime)}` : null,
+      ].filter(Boolean);
+      return `[${index + 1}]${origin.length ? ` (${origin.join(', ')})` : ''}\n${chunk.text}`;
+    })
+    .join('\n\n');
+
+const buildPrompt = (
+  systemPrompt: string,
+  query: string,
+  chunks: ContextChunk[],
+  sources: SourceDetails,
+  history: ChatTurn[]
+) => {
+  const conversation = history.length
+    ? `\n\nConversation so far:\n${history
+        .map((turn) => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${turn.content}`)
+        .join('\n')}`
+    : '';
+
+  return `${systemPrompt}\n\nContext:\n${buildContextText(chunks, sources)}${conversation}\n\nUser Question: ${query}`;
+};
+
+/**
+ * Map the inline [n] markers used in an answer back to the excerpts they refer to. If the
+ * model did not cite anything, every excerpt is returned so provenance is never lost.
+ */
+export const buildCitations = (
+  answer: string,
+  chunks: ContextChunk[],
+  sources: SourceDetails
+): Citation[] => {
+  const cited = new Set<number>();
+  const markerPattern = /\[(\d+)\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = markerPattern.exec(answer)) !== null) {
+    const marker = Number(match[1]);
+    if (marker >= 1 && marker <= chunks.length) cited.add(marker);
+  }
+  const markers =
+    cited.size > 0 ? Array.from(cited).sort((a, b) => a - b) : chunks.map((_, i) => i + 1);
+
+  return markers.map((marker) => {
+    const chunk = chunks[marker - 1];
+    const dataSourceId = chunk.metadata?.dataSourceId || null;
+    const lines = chunk.metadata?.loc?.lines;
+    const time = getChunkTime(chunk, sources);
+    return {
+      marker,
+      dataSourceId,
+      dataSourceName: (dataSourceId && sources.names.get(dataSourceId)) || null,
+      chunkIndex: chunk.metadata?.chunk_id ?? null,
+      lines: lines ? { from: lines.from, to: lines.to } : null,
+      startTime: time?.startTime ?? null,
+      endTime: time?.endTime ?? null,
+      timestamp: time ? formatTimestamp(time.startTime) : null,
+      snippet: chunk.text.substring(0, 200),
+      score: chunk.score,
+    };
+  });
+};
+
+const CONFIDENCE_LEVELS = ['high', 'medium', 'low'];
+
+const normalizeMeta = (
+  raw: any,
+  fallbackAnswer: string,
+  chunks: ContextChunk[],
+  sources: SourceDetails
+): TutorAnswer => {
+  const answer = raw?.answer || fallbackAnswer;
+  return {
+    answer,
+    confidence: CONFIDENCE_LEVELS.includes(raw?.confidence) ? raw.confidence : 'medium',
+    suggestions: Array.isArray(raw?.suggestions)
+      ? raw.suggestions.filter((suggestion: unknown) => typeof suggestion === 'string')
+      : [],
+    citations: buildCitations(answer, chunks, sources),
+  };
+};
+
+/**
+ * Answer a question from the retrieved context in a single response. Prior turns of a
+ * conversation can be passed so follow-up questions are answered in context.
+ */
+export const generateTutorAnswer = async (
+  query: string,
+  chunks: ContextChunk[],
+  history: ChatTurn[] = []
+): Promise<TutorAnswer> => {
+  const systemPrompt = `${TUTOR_INSTRUCTIONS}
+      IMPORTANT: You MUST respond with a valid JSON object in the following format:
+      {
+        "answer": "Your detailed response here, with inline [n] citation markers",
+        "confidence": "high" | "medium" | "low",
+        "suggestions": ["optional array of follow-up questions or topics to explore"]
+      }
+    `;
+
+  const sources = await loadSourceDetails(chunks);
+  const result = await getLLM('query').generateJSON<{
+    answer?: unknown;
+    confidence?: unknown;
+    suggestions?: unknown;
+  }>(buildPrompt(systemPrompt, query, chunks, sources, history), {
+    maxOutputTokens: 8192,
+    temperature: 1,
+    topP: 0.95,
+  });
+
+  const answer = typeof result?.answer === 'string' ? result.answer.trim() : '';
+  if (!answer) {
+    throw new Error('No answer generated from AI');
+  }
+  return normalizeMeta({ ...result, answer }, answer, chunks, sources);
+};
+
+/**
+ * Answer a question from the retrieved context, calling onToken with answer text as it
+ * is generated. The structured fields are only known once generation has finished.
+ */
+export const streamTutorAnswer = async (
+  query: string,
+  chunks: ContextChunk[],
+  onToken: (text: string) => void
+): Promise<TutorAnswer> => {
+  const systemPrompt = `${TUTOR_INSTRUCTIONS}
+      IMPORTANT: Write your answer as plain text (markdown is allowed) with inline [n] citation
+      markers. After the answer, output a line containing exactly ${META_MARKER} followed by a JSON object in the following format:
+      {"confidence": "high" | "medium" | "low", "suggestions": ["optional follow-up questions or topics to explore"]}
+    `;
+
+  const sources = await loadSourceDetails(chunks);
+  const stream = getLLM('query').streamText(buildPrompt(systemPrompt, query, chunks, sources, []), {
+    maxOutputTokens: 8192,
+    temperature: 1,
+    topP: 0.95,
+  });
+
+  let answer = '';
+  let pending = '';
+  let meta = '';
+  let inMeta = false;
+
+  for await (const text of stream) {
+    if (inMeta) {
+      meta += text;
+      continue;
+    }
+
+    pending += text;
+    const markerIndex = pending.indexOf(META_MARKER);
+    if (markerIndex !== -1) {
+      const visible = pending.substring(0, markerIndex);
+      meta = pending.substring(markerIndex + META_MARKER.length);
+      inMeta = true;
+      pending = '';
+      if (visible) {
+        answer += visible;
+        onToken(visible);
+      }
+      continue;
+    }
+
+    // Hold back a tail that could be the start of a marker split across chunks
+    const safeLength = pending.length - (META_MARKER.length - 1);
+    if (safeLength > 0) {
+      const visible = pending.substring(0, safeLength);
+      pending = pending.substring(safeLength);
+      answer += visible;
+      onToken(visible);
+    }
+  }
+
+  if (pending) {
+    answer += pending;
+    onToken(pending);
+  }
+
+  let parsedMeta: any = null;
+  if (meta.trim()) {
+    try {
+      parsedMeta = parseJSONResponse(meta);
+    } catch (parseError) {
+      console.log('Could not parse streamed answer metadata as JSON, ignoring it');
+    }
+  }
+
+  return normalizeMeta({ ...parsedMeta, answer: answer.trim() }, answer.trim(), chunks, sources);
+};
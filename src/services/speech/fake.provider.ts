@@ -0,0 +1,48 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { SpeechToTextProvider, Transcript } from './speech.types';
+
+const FAKE_SEGMENT_SECONDS = 30;
+const FAKE_BYTES_PER_SEGMENT = 256 * 1024;
+const FAKE_MAX_SEGMENTS = 20;
+
+export type FakeTranscriber = (filePath: string) => Transcript | undefined;
+
+let transcriber: FakeTranscriber | undefined;
+
+/**
+ * Override what the fake provider transcribes, e.g. to return a canned lecture in tests.
+ * Returning undefined from the transcriber falls back to the default transcript.
+ */
+export const setFakeTranscriber = (fn: FakeTranscriber | undefined) => {
+  transcriber = fn;
+};
+
+/**
+ * Deterministic offline provider. Produces one 30 second segment per 256KB of the file,
+ * so the same file always yields the same transcript.
+ */
+export class FakeSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'fake';
+
+  async transcribe(filePath: string, _mimeType: string): Promise<Transcript> {
+    const custom = transcriber?.(filePath);
+    if (custom !== undefined) return custom;
+
+    const { size } = await fs.stat(filePath);
+    const count = Math.min(
+      Math.max(Math.ceil(size / FAKE_BYTES_PER_SEGMENT), 1),
+      FAKE_MAX_SEGMENTS
+    );
+    const name = path.basename(filePath);
+
+    return {
+      segments: Array.from({ length: count }, (_, index) => ({
+        start: index * FAKE_SEGMENT_SECONDS,
+        end: (index + 1) * FAKE_SEGMENT_SECONDS,
+        text: `Fake transcript of ${name}, part ${index + 1}.`,
+      })),
+      language: 'en',
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { FakeSpeechToTextProvider } from './fake.provider';
+import { LLMSpeechToTextProvider } from './llm.provider';
+import { OpenAISpeechToTextProvider } from './openai.provider';
+import { SpeechToTextProvider } from './speech.types';
+
+export * from './speech.types';
+export { setFakeTranscriber } from './fake.provider';
+
+let provider: SpeechToTextProvider | undefined;
+
+/**
+ * Get the configured speech-to-text provider.
+ * SPEECH_PROVIDER selects the backend (llm | openai | fake), defaulting to the configured LLM.
+ */
+export const getSpeechToText = (): SpeechToTextProvider => {
+  if (provider) return provider;
+
+  const providerName = (process.env.SPEECH_PROVIDER || 'llm').toLowerCase();
+  switch (providerName) {
+    case 'llm':
+      provider = new LLMSpeechToTextProvider();
+      break;
+    case 'openai':
+      provider = new OpenAISpeechToTextProvider(
+        process.env.SPEECH_MODEL || 'whisper-1',
+        process.env.SPEECH_BASE_URL || 'https://api.openai.com/v1',
+        process.env.SPEECH_API_KEY || process.env.LLM_API_KEY
+      );
+      break;
+    case 'fake':
+      provider = new FakeSpeechToTextProvider();
+      break;
+    default:
+      throw new Error(`Unknown speech-to-text provider: ${providerName}`);
+  }
+
+  console.log(`[SpeechToText] Using ${provider.name} provider`);
+  return provider;
+};
+
+/**
+ * Replace the speech-to-text provider, e.g. with a fake one in tests
+ */
+export const setSpeechToText = (speechToText: SpeechToTextProvider | undefined) => {
+  provider = speechToText;
+};
@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import { getLLM } from '../llm';
+import { SpeechToTextProvider, Transcript, TranscriptSegment } from './speech.types';
+
+/**
+ * Inline request payloads are capped by the model APIs at around 20MB
+ */
+const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+const TRANSCRIPTION_PROMPT = `
+Transcribe the speech in this recording verbatim.
+Split the transcript into segments of one or two sentences each, in order.
+Respond ONLY with a JSON object in this format:
+{
+  "language": "ISO 639-1 code of the spoken language",
+  "segments": [{ "start": 0.0, "end": 4.2, "text": "..." }]
+}
+"start" and "end" are the seconds from the beginning of the recording at which the segment
+starts and ends.`;
+
+/**
+ * Transcribes recordings with the configured multimodal LLM (e.g. Gemini), so no extra
+ * service is needed when the LLM already understands audio
+ */
+export class LLMSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'llm';
+
+  async transcribe(filePath: string, mimeType: string): Promise<Transcript> {
+    const file = await fs.readFile(filePath);
+    if (file.length > MAX_INLINE_BYTES) {
+      throw new Error(
+        'Recording is too large to transcribe with the LLM; configure SPEECH_PROVIDER=openai'
+      );
+    }
+
+    const response = await getLLM('transcription').generateJSON<{
+      language?: string;
+      segments?: TranscriptSegment[];
+    }>(
+      [{ text: TRANSCRIPTION_PROMPT }, { inlineData: { data: file.toString('base64'), mimeType } }],
+      { temperature: 0, maxOutputTokens: 65536 }
+    );
+
+    const segments = (Array.isArray(response?.segments) ? response.segments : [])
+      .filter((segment) => typeof segment?.text === 'string' && segment.text.trim())
+      .map((segment) => ({
+        start: Number(segment.start) || 0,
+        end: Number(segment.end) || Number(segment.start) || 0,
+        text: segment.text.trim(),
+      }));
+
+    return { segments, language: response?.language || null };
+  }
+}
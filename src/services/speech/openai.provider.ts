@@ -0,0 +1,57 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { SpeechToTextProvider, Transcript } from './speech.types';
+
+/**
+ * Provider for OpenAI-compatible transcription endpoints (OpenAI Whisper, faster-whisper
+ * servers, ...) that support the verbose_json response format
+ */
+export class OpenAISpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'openai';
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async transcribe(filePath: string, mimeType: string): Promise<Transcript> {
+    const file = await fs.readFile(filePath);
+
+    const form = new FormData();
+    form.append('file', new Blob([file], { type: mimeType }), path.basename(filePath));
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Transcription endpoint responded with ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const segments = Array.isArray(data?.segments)
+      ? data.segments.map((segment: any) => ({
+          start: Number(segment.start) || 0,
+          end: Number(segment.end) || 0,
+          text: String(segment.text || '').trim(),
+        }))
+      : [];
+
+    // Endpoints without segment support still return the full text
+    if (segments.length === 0 && typeof data?.text === 'string' && data.text.trim()) {
+      segments.push({ start: 0, end: Number(data.duration) || 0, text: data.text.trim() });
+    }
+
+    return {
+      segments: segments.filter((segment: { text: string }) => segment.text),
+      language: data?.language || null,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * A piece of a transcript with its position in the recording, in seconds
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  language: string | null;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+
+  /**
+   * Transcribe an audio or video file into timestamped segments, in order
+   */
+  transcribe(filePath: string, mimeType: string): Promise<Transcript>;
+}
@@ -1,5 +1,4 @@
 import db from '../db/db';
-import { Prisma } from '@prisma/client';
 import {
   differenceInDays,
   startOfWeek,
@@ -148,6 +147,26 @@ export const updateWeeklyProgress = async (userId: string, amount: number): Prom
   }
 };
 
+/**
+ * Recalculate the quiz average from all of the user's attempts, after an attempt's score changed
+ */
+export const recalculateQuizAverage = async (userId: string): Promise<void> => {
+  try {
+    const { _avg } = await db.quizAttempt.aggregate({
+      where: { userId },
+      _avg: { percentage: true },
+    });
+
+    await getOrCreateUserStats(userId);
+    await db.userStats.update({
+      where: { userId },
+      data: { quizAverage: _avg.percentage || 0 },
+    });
+  } catch (error) {
+    console.error('[QUIZ] Error recalculating quiz average:', error);
+  }
+};
+
 /**
  * Update quiz average
  */
@@ -158,7 +177,7 @@ export const updateQuizAverage = async (userId: string, newQuizScore: number): P
     const completedQuizzes = await db.quiz.count({
       where: {
         userId,
-        attempts: { not: Prisma.JsonNull },
+        attempts: { some: { userId } },
       },
     });
 
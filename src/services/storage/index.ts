@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalDiskStorage } from './local.storage';
+import { S3Storage } from './s3.storage';
+import { StorageBackend } from './storage.types';
+
+export * from './storage.types';
+export { LocalDiskStorage } from './local.storage';
+
+/**
+ * Lifetime of signed download URLs
+ */
+export const SIGNED_URL_TTL_SECONDS = Number(process.env.SIGNED_URL_TTL_SECONDS) || 15 * 60;
+
+let storage: StorageBackend | undefined;
+
+/**
+ * Get the configured storage backend.
+ * STORAGE_BACKEND selects the backend (local | s3), defaulting to local disk at STORAGE_LOCAL_DIR.
+ */
+export const getStorage = (): StorageBackend => {
+  if (storage) return storage;
+
+  const backendName = (process.env.STORAGE_BACKEND || 'local').toLowerCase();
+  switch (backendName) {
+    case 'local':
+      storage = new LocalDiskStorage(
+        process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads'),
+        process.env.STORAGE_SIGNING_SECRET || (process.env.JWT_SECRET as string),
+        process.env.PUBLIC_BASE_URL
+      );
+      break;
+    case 's3':
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET must be set when STORAGE_BACKEND=s3');
+      }
+      storage = new S3Storage({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+      break;
+    default:
+      throw new Error(`Unknown storage backend: ${backendName}`);
+  }
+
+  console.log(`[Storage] Using ${storage.name} storage`);
+  return storage;
+};
+
+/**
+ * Replace the storage backend, e.g. with one rooted in a temporary directory in tests
+ */
+export const setStorage = (backend: StorageBackend | undefined) => {
+  storage = backend;
+};
+
+/**
+ * A unique storage key under the prefix that keeps the original file name readable
+ */
+export const buildStorageKey = (prefix: string, originalName: string) => {
+  const safeName = path.basename(originalName).replace(/[^\w.-]+/g, '_');
+  return `${prefix}/${Date.now()}-${crypto.randomBytes(6).toString('hex')}-${safeName}`;
+};
+
+const createTempPath = (extension: string) =>
+  path.join(os.tmpdir(), `learnability-${crypto.randomBytes(8).toString('hex')}${extension}`);
+
+/**
+ * Move an uploaded temporary file into storage and return its key
+ */
+export const storeUploadedFile = async (
+  file: { path: string; originalname: string; mimetype: string },
+  prefix: string
+): Promise<string> => {
+  const key = buildStorageKey(prefix, file.originalname);
+  await getStorage().putFile(key, file.path, file.mimetype);
+  return key;
+};
+
+/**
+ * Store generated content, such as a thumbnail, under the key
+ */
+export const storeBuffer = async (key: string, content: Buffer, contentType: string) => {
+  const tempPath = createTempPath(path.extname(key));
+  await fsp.writeFile(tempPath, content);
+  try {
+    await getStorage().putFile(key, tempPath, contentType);
+  } finally {
+    await fsp.unlink(tempPath).catch(() => undefined);
+  }
+};
+
+/**
+ * Run fn with a path to the stored object on local disk. Objects in remote storage are
+ * downloaded to a temporary file that is removed afterwards.
+ */
+export const withLocalFile = async <T>(
+  key: string,
+  fn: (filePath: string) => Promise<T>
+): Promise<T> => {
+  const backend = getStorage();
+  if (backend.getLocalPath) return fn(backend.getLocalPath(key));
+
+  const tempPath = createTempPath(path.extname(key));
+  await backend.downloadToFile(key, tempPath);
+  try {
+    return await fn(tempPath);
+  } finally {
+    await fsp.unlink(tempPath).catch(() => undefined);
+  }
+};
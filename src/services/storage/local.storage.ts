@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { SignedUrlOptions, StorageBackend } from './storage.types';
+
+/**
+ * Where files were uploaded before storage keys were introduced
+ */
+const LEGACY_UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+const isInsideDir = (dir: string, filePath: string): boolean =>
+  filePath.startsWith(path.resolve(dir) + path.sep);
+
+/**
+ * Stores files in a directory on local disk. Signed URLs point at the app's
+ * /api/v1/files/download route and are verified with an HMAC.
+ */
+export class LocalDiskStorage implements StorageBackend {
+  readonly name = 'local';
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly signingSecret: string,
+    private readonly publicBaseUrl: string = ''
+  ) {}
+
+  /**
+   * Files uploaded before storage keys were introduced are referenced by absolute path,
+   * which is only accepted inside the old uploads directory
+   */
+  getLocalPath(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    const allowedDir = path.isAbsolute(key) ? LEGACY_UPLOADS_DIR : this.rootDir;
+    if (!isInsideDir(allowedDir, resolved)) {
+      throw new Error('Invalid storage key');
+    }
+    return resolved;
+  }
+
+  async putFile(key: string, filePath: string, _contentType: string): Promise<void> {
+    const destination = this.getLocalPath(key);
+    await fsp.mkdir(path.dirname(destination), { recursive: true });
+    try {
+      await fsp.rename(filePath, destination);
+    } catch (error) {
+      // rename cannot move files across file systems
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await fsp.copyFile(filePath, destination);
+      await fsp.unlink(filePath);
+    }
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.getLocalPath(key);
+    await fsp.access(filePath);
+    return fs.createReadStream(filePath);
+  }
+
+  async downloadToFile(key: string, destination: string): Promise<void> {
+    await fsp.copyFile(this.getLocalPath(key), destination);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fsp.unlink(this.getLocalPath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  private sign(key: string, expires: number, downloadName: string) {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}\n${downloadName}`)
+      .digest('hex');
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const downloadName = options.downloadName || path.basename(key);
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      name: downloadName,
+      signature: this.sign(key, expires, downloadName),
+    });
+    return `${this.publicBaseUrl.replace(/\/$/, '')}/api/v1/files/download?${params}`;
+  }
+
+  /**
+   * Check the parameters of a URL produced by getSignedUrl
+   */
+  verifySignedUrl(key: string, expires: number, downloadName: string, signature: string) {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(key, expires, downloadName), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+}
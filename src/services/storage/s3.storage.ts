@@ -0,0 +1,90 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { SignedUrlOptions, StorageBackend } from './storage.types';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  /**
+   * Custom endpoint for S3-compatible services such as MinIO
+   */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Stores files in an S3 bucket, or any S3-compatible object store (MinIO, R2, ...)
+ */
+export class S3Storage implements StorageBackend {
+  readonly name = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async putFile(key: string, filePath: string, contentType: string): Promise<void> {
+    const { size } = await fsp.stat(filePath);
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: fs.createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType,
+      })
+    );
+    await fsp.unlink(filePath);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: key })
+    );
+    if (!response.Body) {
+      throw new Error(`Object ${key} has no content`);
+    }
+    return response.Body as Readable;
+  }
+
+  async downloadToFile(key: string, destination: string): Promise<void> {
+    await pipeline(await this.getStream(key), fs.createWriteStream(destination));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        ResponseContentDisposition: options.downloadName
+          ? `attachment; filename*=UTF-8''${encodeURIComponent(options.downloadName)}`
+          : undefined,
+      }),
+      { expiresIn: options.expiresInSeconds }
+    );
+  }
+}
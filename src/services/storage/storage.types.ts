@@ -0,0 +1,50 @@
+import { Readable } from 'stream';
+
+export interface SignedUrlOptions {
+  /**
+   * How long the URL stays valid, in seconds
+   */
+  expiresInSeconds: number;
+  /**
+   * File name offered to the browser when the file is downloaded
+   */
+  downloadName?: string;
+}
+
+/**
+ * Where uploaded files are kept. Objects are addressed by a key such as
+ * "data-sources/<userId>/<file>", so any app instance can read what another one stored.
+ */
+export interface StorageBackend {
+  readonly name: string;
+
+  /**
+   * Store a local file under the key. The local file is consumed (moved or deleted).
+   */
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+
+  /**
+   * Open a stored object for reading
+   */
+  getStream(key: string): Promise<Readable>;
+
+  /**
+   * Copy a stored object to a local file, for libraries that can only read from disk
+   */
+  downloadToFile(key: string, destination: string): Promise<void>;
+
+  /**
+   * Delete a stored object. Deleting a missing object is not an error.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * A time-limited URL that downloads the object without further authentication
+   */
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+
+  /**
+   * Path of the object on this machine's disk, when the backend keeps files locally
+   */
+  getLocalPath?(key: string): string;
+}
@@ -0,0 +1,209 @@
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { Canvas, createCanvas, DOMMatrix, ImageData, Path2D, SKRSContext2D } from '@napi-rs/canvas';
+import { DataSourceType } from '@prisma/client';
+import db from '../db/db';
+import { enqueueJob, JobContext, registerJobHandler } from './job-queue.service';
+import { getStorage, storeBuffer, withLocalFile } from './storage';
+
+export const GENERATE_THUMBNAIL_JOB = 'generate-thumbnail';
+
+export interface GenerateThumbnailPayload {
+  dataSourceId: string;
+}
+
+/**
+ * Thumbnails are cropped to the 4:3 tiles of the materials grid
+ */
+const THUMBNAIL_WIDTH = 400;
+const THUMBNAIL_HEIGHT = 300;
+
+/**
+ * Types with a visual preview. Everything else is shown with a type icon.
+ */
+const PREVIEWABLE_TYPES: DataSourceType[] = [DataSourceType.PDF, DataSourceType.IMAGE];
+
+/**
+ * URL the app uses for a data source's thumbnail. Serves the generated image, or a type icon
+ * while there is none.
+ */
+export const getDataSourceThumbnailUrl = (dataSourceId: string) =>
+  `/api/v1/data-sources/${dataSourceId}/thumbnail`;
+
+interface CanvasAndContext {
+  canvas: Canvas;
+  context: SKRSContext2D;
+}
+
+/**
+ * Lets pdf.js draw onto @napi-rs/canvas instead of a browser canvas
+ */
+const canvasFactory = {
+  create: (width: number, height: number): CanvasAndContext => {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset: (target: CanvasAndContext, width: number, height: number) => {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  },
+  destroy: (target: CanvasAndContext) => {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+  },
+};
+
+let pdfjs: typeof import('pdfjs-dist/legacy/build/pdf') | undefined;
+
+/**
+ * Browser globals pdf.js looks up when rendering. The DOM typings declare them, but Node does
+ * not define them.
+ */
+interface PdfjsGlobals {
+  DOMMatrix: unknown;
+  ImageData: unknown;
+  Path2D: unknown;
+}
+
+/**
+ * Load pdf.js on first use. It expects these browser globals when rendering, so they are
+ * provided by @napi-rs/canvas before the module is evaluated.
+ */
+const loadPdfjs = () => {
+  if (!pdfjs) {
+    const globals: PdfjsGlobals = globalThis;
+    globals.DOMMatrix = globals.DOMMatrix || DOMMatrix;
+    globals.ImageData = globals.ImageData || ImageData;
+    globals.Path2D = globals.Path2D || Path2D;
+    pdfjs =
+      require('pdfjs-dist/legacy/build/pdf.js') as typeof import('pdfjs-dist/legacy/build/pdf');
+  }
+  return pdfjs;
+};
+
+/**
+ * Render the first page of a PDF as a PNG, at twice the thumbnail width so it stays sharp
+ * after resizing
+ */
+const renderPdfFirstPage = async (filePath: string): Promise<Buffer> => {
+  const document = await loadPdfjs().getDocument({
+    data: new Uint8Array(await fs.readFile(filePath)),
+    canvasFactory,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const page = await document.getPage(1);
+    const scale = (THUMBNAIL_WIDTH * 2) / page.getViewport({ scale: 1 }).width;
+    const viewport = page.getViewport({ scale });
+    const { canvas, context } = canvasFactory.create(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height)
+    );
+
+    // Pages without a background would otherwise render onto transparency
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+      canvasFactory,
+    } as Parameters<typeof page.render>[0]).promise;
+
+    return canvas.toBuffer('image/png');
+  } finally {
+    await document.destroy();
+  }
+};
+
+/**
+ * Create the thumbnail image of a file, or null when its type has no visual preview
+ */
+const renderThumbnail = async (filePath: string, type: DataSourceType): Promise<Buffer | null> => {
+  switch (type) {
+    case DataSourceType.IMAGE:
+      return sharp(filePath)
+        .rotate()
+        .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: 'cover' })
+        .webp({ quality: 80 })
+        .toBuffer();
+    case DataSourceType.PDF:
+      // Keep the top of the page, where the title usually is
+      return sharp(await renderPdfFirstPage(filePath))
+        .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: 'cover', position: 'top' })
+        .webp({ quality: 80 })
+        .toBuffer();
+    default:
+      return null;
+  }
+};
+
+/**
+ * Generate the thumbnail of a data source's current file and store it next to the file.
+ * Files that cannot be previewed keep (or fall back to) the type icon.
+ */
+const generateDataSourceThumbnail = async ({ payload }: JobContext<GenerateThumbnailPayload>) => {
+  const { dataSourceId } = payload;
+
+  const dataSource = await db.dataSource.findUnique({
+    where: { id: dataSourceId },
+    select: { userId: true, type: true, filePath: true, version: true, thumbnailPath: true },
+  });
+
+  if (!dataSource) {
+    console.warn(`[ThumbnailService] Data source ${dataSourceId} no longer exists, skipping.`);
+    return;
+  }
+
+  let thumbnail: Buffer | null = null;
+  if (dataSource.filePath && PREVIEWABLE_TYPES.includes(dataSource.type)) {
+    thumbnail = await withLocalFile(dataSource.filePath, async (filePath) => {
+      try {
+        return await renderThumbnail(filePath, dataSource.type);
+      } catch (error) {
+        console.warn(
+          `[ThumbnailService] Could not render a thumbnail for ${dataSourceId}, using the type icon:`,
+          error
+        );
+        return null;
+      }
+    });
+  }
+
+  const key = thumbnail
+    ? `data-sources/${dataSource.userId}/thumbnails/${dataSourceId}-v${dataSource.version}.webp`
+    : null;
+  if (key && thumbnail) {
+    await storeBuffer(key, thumbnail, 'image/webp');
+  }
+
+  // The file may have been replaced (or the data source deleted) while rendering
+  const { count } = await db.dataSource.updateMany({
+    where: { id: dataSourceId, version: dataSource.version },
+    data: { thumbnailPath: key },
+  });
+  if (count === 0) {
+    if (key) await getStorage().delete(key);
+    return;
+  }
+
+  if (dataSource.thumbnailPath && dataSource.thumbnailPath !== key) {
+    await getStorage().delete(dataSource.thumbnailPath);
+  }
+
+  console.log(
+    `[ThumbnailService] ${key ? 'Generated thumbnail' : 'Using type icon'} for ${dataSourceId}`
+  );
+};
+
+registerJobHandler<GenerateThumbnailPayload>(GENERATE_THUMBNAIL_JOB, {
+  run: generateDataSourceThumbnail,
+});
+
+/**
+ * Queue (re)generation of a data source's thumbnail
+ */
+export const enqueueThumbnailGeneration = (dataSourceId: string) =>
+  enqueueJob(GENERATE_THUMBNAIL_JOB, { dataSourceId }, { dataSourceId, maxAttempts: 3 });
@@ -0,0 +1,74 @@
+import mime from 'mime-types';
+import { getSpeechToText, TranscriptSegment } from './speech';
+
+/**
+ * A transcript segment along with its character range in the assembled transcript text
+ */
+export interface TimedSegment extends TranscriptSegment {
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface TranscribedMedia {
+  text: string;
+  segments: TimedSegment[];
+  language: string | null;
+}
+
+/**
+ * Transcribe an audio or video file. Segments are joined one per line, and each keeps its
+ * position in the text so chunks can be mapped back to a time in the recording.
+ */
+export const transcribeMedia = async (filePath: string): Promise<TranscribedMedia> => {
+  const mimeType = mime.lookup(filePath) || 'application/octet-stream';
+  console.log(`[TranscriptionService] Transcribing ${filePath} (${mimeType})`);
+
+  const { segments, language } = await getSpeechToText().transcribe(filePath, mimeType);
+  if (segments.length === 0) {
+    throw new Error('No speech could be transcribed from the recording');
+  }
+
+  let offset = 0;
+  const timedSegments = segments.map((segment) => {
+    const startOffset = offset;
+    offset += segment.text.length + 1;
+    return { ...segment, startOffset, endOffset: startOffset + segment.text.length };
+  });
+
+  console.log(`[TranscriptionService] Transcribed ${segments.length} segment(s) from ${filePath}`);
+  return {
+    text: segments.map((segment) => segment.text).join('\n'),
+    segments: timedSegments,
+    language,
+  };
+};
+
+/**
+ * The span of the recording covered by a chunk of the transcript text
+ */
+export const getChunkTimeRange = (
+  segments: TimedSegment[],
+  startOffset: number | null,
+  endOffset: number | null
+): { startTime: number; endTime: number } | null => {
+  if (startOffset === null || endOffset === null) return null;
+
+  const covered = segments.filter(
+    (segment) => segment.endOffset > startOffset && segment.startOffset < endOffset
+  );
+  if (covered.length === 0) return null;
+
+  return { startTime: covered[0].start, endTime: covered[covered.length - 1].end };
+};
+
+/**
+ * Format seconds as m:ss, or h:mm:ss for recordings longer than an hour
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(Math.floor(seconds), 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
@@ -0,0 +1,155 @@
+import {
+  chunkArray,
+  EMBEDDING_BATCH_SIZE,
+  EMBEDDING_CONCURRENCY,
+  getEmbeddings,
+  getQueryEmbedding,
+  mapWithConcurrency,
+} from './embedding.service';
+import { getVectorStore } from './vector';
+
+export async function insertEmbeddings(
+  documents: any[],
+  userId: string,
+  metadata: {
+    subjectId?: string;
+    dataSourceId: string;
+  },
+  onProgress?: (inserted: number, total: number, batch: any[]) => Promise<void> | void
+) {
+  console.log(
+    `[VectorService] Inserting embeddings for user: ${userId}, dataSource: ${metadata.dataSourceId}, subject: ${metadata.subjectId || 'N/A'}`
+  );
+  try {
+    const store = getVectorStore();
+    let inserted = 0;
+
+    // Each batch is embedded with one request and written with one insert
+    await mapWithConcurrency(
+      chunkArray(documents, EMBEDDING_BATCH_SIZE),
+      EMBEDDING_CONCURRENCY,
+      async (batch) => {
+        const embeddings = await getEmbeddings(batch.map((doc) => doc.pageContent));
+
+        await store.insert(
+          batch.map((doc, index) => ({
+            text: doc.pageContent,
+            embedding: embeddings[index],
+            metadata: {
+              ...doc.metadata,
+              subjectId: metadata.subjectId || null,
+              dataSourceId: metadata.dataSourceId,
+            },
+            userId,
+            subjectId: metadata.subjectId || null,
+            dataSourceId: metadata.dataSourceId,
+          }))
+        );
+
+        inserted += batch.length;
+        await onProgress?.(inserted, documents.length, batch);
+      }
+    );
+
+    console.log(
+      `[VectorService] Finished inserting ${documents.length} embeddings for dataSource: ${metadata.dataSourceId}`
+    );
+  } catch (error) {
+    console.error(
+      `[VectorService] Error inserting embeddings for user ${userId}, dataSource ${metadata.dataSourceId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Semantic search over the user's embedded chunks. Returns an empty list if the vector
+ * store is unavailable so callers can degrade gracefully.
+ */
+export async function searchEmbeddings(
+  queryText: string,
+  userId: string,
+  options: {
+    topK?: number;
+    subjectId?: string;
+    dataSourceIds?: string[];
+  } = {}
+) {
+  const { topK = 2, subjectId, dataSourceIds } = options;
+  console.log(
+    `[VectorService] Searching for query: "${queryText}", user: ${userId}, options:`,
+    options
+  );
+
+  try {
+    const queryEmbedding = await getQueryEmbedding(queryText);
+    if (!queryEmbedding) {
+      console.log('[VectorService] Failed to generate query embedding.');
+      return [];
+    }
+
+    const results = await getVectorStore().search(
+      queryEmbedding,
+      { userId, subjectId, dataSourceIds },
+      topK
+    );
+
+    if (results.length === 0 && dataSourceIds && dataSourceIds.length > 0 && subjectId) {
+      console.log(
+        '[VectorService] Falling back to subject-based search as dataSource search yielded no results.'
+      );
+      return await searchEmbeddings(queryText, userId, { topK, subjectId });
+    }
+
+    console.log(`[VectorService] Found ${results.length} results.`);
+    return results;
+  } catch (error) {
+    console.error('[VectorService] Error searching embeddings:', error);
+    return [];
+  }
+}
+
+export async function deleteEmbeddingsByDataSource(dataSourceId: string) {
+  console.log(`[VectorService] Deleting embeddings for data source: ${dataSourceId}`);
+  try {
+    await getVectorStore().deleteByDataSource(dataSourceId);
+  } catch (error) {
+    console.error(
+      `[VectorService] Error deleting embeddings for data source ${dataSourceId}:`,
+      error
+    );
+  }
+}
+
+export async function deleteEmbeddingsBySubject(subjectId: string) {
+  console.log(`[VectorService] Deleting embeddings for subject: ${subjectId}`);
+  try {
+    await getVectorStore().deleteBySubject(subjectId);
+  } catch (error) {
+    console.error(`[VectorService] Error deleting embeddings by subject ${subjectId}:`, error);
+  }
+}
+
+/**
+ * Keep the subject stored with a data source's embeddings in sync after it moves to another
+ * subject. Unlike the deletes, failures are thrown so the caller can undo the move.
+ */
+export async function updateEmbeddingsSubject(dataSourceId: string, subjectId: string | null) {
+  console.log(
+    `[VectorService] Moving embeddings of data source ${dataSourceId} to subject: ${subjectId || 'N/A'}`
+  );
+  try {
+    await getVectorStore().updateSubject(dataSourceId, subjectId);
+  } catch (error) {
+    console.error(
+      `[VectorService] Error moving embeddings of data source ${dataSourceId} to subject ${subjectId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+export async function resetVectorIndex() {
+  return getVectorStore().reset();
+}
@@ -0,0 +1,41 @@
+import { getEmbeddingDimension } from '../llm';
+import { InMemoryVectorStore } from './memory.store';
+import { MilvusVectorStore } from './milvus.store';
+import { VectorStore } from './vector.types';
+
+export * from './vector.types';
+
+let store: VectorStore | undefined;
+
+/**
+ * Get the configured vector store.
+ * VECTOR_STORE selects the backend (milvus | memory), defaulting to milvus at MILVUS_ADDRESS.
+ */
+export const getVectorStore = (): VectorStore => {
+  if (store) return store;
+
+  const storeName = (process.env.VECTOR_STORE || 'milvus').toLowerCase();
+  switch (storeName) {
+    case 'milvus':
+      store = new MilvusVectorStore(
+        process.env.MILVUS_ADDRESS || 'localhost:19530',
+        getEmbeddingDimension()
+      );
+      break;
+    case 'memory':
+      store = new InMemoryVectorStore();
+      break;
+    default:
+      throw new Error(`Unknown vector store: ${storeName}`);
+  }
+
+  console.log(`[VectorStore] Using ${store.name} vector store`);
+  return store;
+};
+
+/**
+ * Replace the vector store, e.g. with a fresh in-memory store in tests
+ */
+export const setVectorStore = (vectorStore: VectorStore | undefined) => {
+  store = vectorStore;
+};
@@ -0,0 +1,72 @@
+import { VectorFilter, VectorRecord, VectorSearchResult, VectorStore } from './vector.types';
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+const matchesFilter = (record: VectorRecord, filter: VectorFilter): boolean => {
+  if (record.userId !== filter.userId) return false;
+  if (filter.dataSourceIds && filter.dataSourceIds.length > 0) {
+    return filter.dataSourceIds.includes(record.dataSourceId);
+  }
+  if (filter.subjectId) return record.subjectId === filter.subjectId;
+  return true;
+};
+
+/**
+ * Vector store held in process memory with brute-force cosine search. Nothing is persisted,
+ * so it is meant for tests, local development and small single-instance deployments.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private records: VectorRecord[] = [];
+
+  async insert(records: VectorRecord[]): Promise<void> {
+    this.records.push(...records);
+  }
+
+  async search(
+    embedding: number[],
+    filter: VectorFilter,
+    topK: number
+  ): Promise<VectorSearchResult[]> {
+    return this.records
+      .filter((record) => matchesFilter(record, filter))
+      .map((record) => ({
+        text: record.text,
+        score: cosineSimilarity(embedding, record.embedding),
+        metadata: record.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async deleteByDataSource(dataSourceId: string): Promise<void> {
+    this.records = this.records.filter((record) => record.dataSourceId !== dataSourceId);
+  }
+
+  async deleteBySubject(subjectId: string): Promise<void> {
+    this.records = this.records.filter((record) => record.subjectId !== subjectId);
+  }
+
+  async updateSubject(dataSourceId: string, subjectId: string | null): Promise<void> {
+    for (const record of this.records) {
+      if (record.dataSourceId !== dataSourceId) continue;
+      record.subjectId = subjectId;
+      record.metadata = { ...record.metadata, subjectId };
+    }
+  }
+
+  async reset(): Promise<{ success: boolean; message: string }> {
+    this.records = [];
+    return { success: true, message: 'In-memory vector store cleared' };
+  }
+}
@@ -0,0 +1,329 @@
+import { DataType, MilvusClient } from '@zilliz/milvus2-sdk-node';
+import { VectorFilter, VectorRecord, VectorSearchResult, VectorStore } from './vector.types';
+
+const COLLECTION_NAME = 'learnability_sources';
+
+/**
+ * Records read, or deleted by id, at a time when a data source's records are moved
+ */
+const QUERY_PAGE_SIZE = 1000;
+
+const buildFilter = ({ userId, subjectId, dataSourceIds }: VectorFilter): string => {
+  let filter = `user_id == "${userId}"`;
+
+  if (dataSourceIds && dataSourceIds.length > 0) {
+    const dataSourceFilter = dataSourceIds.map((id) => `data_source_id == "${id}"`).join(' || ');
+    filter += ` && (${dataSourceFilter})`;
+  } else if (subjectId) {
+    filter += ` && subject_id == "${subjectId}"`;
+  }
+
+  return filter;
+};
+
+/**
+ * Milvus implementation of the vector store. The connection, collection and index are set
+ * up on first use rather than at import time, so the server starts without Milvus running.
+ */
+export class MilvusVectorStore implements VectorStore {
+  readonly name = 'milvus';
+  private client: MilvusClient | undefined;
+  private ready: Promise<void> | undefined;
+
+  constructor(
+    private readonly address: string,
+    private readonly dimension: number
+  ) {}
+
+  private getClient(): MilvusClient {
+    if (!this.client) {
+      console.log(`[MilvusVectorStore] Connecting to Milvus at ${this.address}...`);
+      this.client = new MilvusClient({ address: this.address });
+    }
+    return this.client;
+  }
+
+  /**
+   * Create the collection and index once. A failed attempt is retried on the next call.
+   */
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        console.log('[MilvusVectorStore] Initializing Milvus collection and index...');
+        await this.createCollection();
+        await this.checkDimension();
+        await this.createIndex();
+        console.log('[MilvusVectorStore] Milvus collection and index initialized successfully.');
+      })().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async insert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const mismatched = records.find((record) => record.embedding.length !== this.dimension);
+    if (mismatched) {
+      throw new Error(
+        `Embedding has ${mismatched.embedding.length} dimensions, but the collection stores ${this.dimension}`
+      );
+    }
+    await this.ensureReady();
+
+    await this.getClient().insert({
+      collection_name: COLLECTION_NAME,
+      data: records.map((record) => ({
+        text: record.text,
+        embedding: record.embedding,
+        metadata: record.metadata,
+        user_id: record.userId,
+        subject_id: record.subjectId || '',
+        data_source_id: record.dataSourceId,
+      })),
+    });
+  }
+
+  async search(
+    embedding: number[],
+    filter: VectorFilter,
+    topK: number
+  ): Promise<VectorSearchResult[]> {
+    await this.ensureReady();
+    const client = this.getClient();
+
+    try {
+      await client.loadCollection({ collection_name: COLLECTION_NAME });
+    } catch (error) {
+      console.error(`[MilvusVectorStore] Error loading collection ${COLLECTION_NAME}:`, error);
+      return [];
+    }
+
+    const expression = buildFilter(filter);
+    console.log(`[MilvusVectorStore] Performing search with topK=${topK}, filter: ${expression}`);
+
+    const runSearch = async () => {
+      const searchResults = await client.search({
+        collection_name: COLLECTION_NAME,
+        vector: embedding,
+        limit: topK,
+        metric_type: 'COSINE',
+        filter: expression,
+      });
+
+      if (!searchResults || searchResults.results.length === 0) return [];
+
+      return searchResults.results.map((result) => ({
+        text: result.text,
+        score: result.score,
+        metadata: result.metadata,
+      }));
+    };
+
+    try {
+      return await runSearch();
+    } catch (error) {
+      if (!(error as Error).toString().includes('IndexNotExist')) throw error;
+
+      console.log('[MilvusVectorStore] Index not found, attempting to create it...');
+      await this.createIndex();
+      return runSearch();
+    }
+  }
+
+  async deleteByDataSource(dataSourceId: string): Promise<void> {
+    await this.deleteWhere(`data_source_id == "${dataSourceId}"`);
+  }
+
+  async deleteBySubject(subjectId: string): Promise<void> {
+    await this.deleteWhere(`subject_id == "${subjectId}"`);
+  }
+
+  /**
+   * Scalar fields cannot be updated in place, so the records are copied with the new subject
+   * before the old ones are deleted. If anything fails, the copies made so far are removed
+   * again, leaving the records under their old subject.
+   */
+  async updateSubject(dataSourceId: string, subjectId: string | null): Promise<void> {
+    await this.ensureReady();
+    const client = this.getClient();
+    await client.loadCollection({ collection_name: COLLECTION_NAME });
+
+    // Copies already have the new subject, so they are not picked up again while paging
+    const oldRecordsFilter = `data_source_id == "${dataSourceId}" && subject_id != "${subjectId || ''}"`;
+    const copyIds: string[] = [];
+
+    try {
+      const pages = await client.queryIterator({
+        collection_name: COLLECTION_NAME,
+        filter: oldRecordsFilter,
+        output_fields: ['id', 'text', 'embedding', 'metadata', 'user_id', 'data_source_id'],
+        batchSize: QUERY_PAGE_SIZE,
+      });
+
+      for await (const rows of pages as AsyncIterable<Record<string, any>[]>) {
+        if (rows.length === 0) continue;
+
+        const { IDs } = await client.insert({
+          collection_name: COLLECTION_NAME,
+          data: rows.map((row) => ({
+            text: row.text,
+            embedding: row.embedding,
+            metadata: { ...row.metadata, subjectId },
+            user_id: row.user_id,
+            subject_id: subjectId || '',
+            data_source_id: row.data_source_id,
+          })),
+        });
+        // Int64 ids are passed on as strings, which keeps them exact
+        copyIds.push(...('int_id' in IDs ? IDs.int_id.data : IDs.str_id.data).map(String));
+      }
+      if (copyIds.length === 0) return;
+
+      await client.deleteEntities({ collection_name: COLLECTION_NAME, filter: oldRecordsFilter });
+    } catch (error) {
+      await this.deleteIds(copyIds).catch((cleanupError) =>
+        console.error(
+          `[MilvusVectorStore] Could not remove copied records of data source ${dataSourceId}:`,
+          cleanupError
+        )
+      );
+      throw error;
+    }
+  }
+
+  private async deleteIds(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += QUERY_PAGE_SIZE) {
+      await this.getClient().deleteEntities({
+        collection_name: COLLECTION_NAME,
+        filter: `id in [${ids.slice(i, i + QUERY_PAGE_SIZE).join(', ')}]`,
+      });
+    }
+  }
+
+  private async deleteWhere(filter: string): Promise<void> {
+    await this.ensureReady();
+    const client = this.getClient();
+    await client.loadCollection({ collection_name: COLLECTION_NAME });
+    await client.deleteEntities({ collection_name: COLLECTION_NAME, filter });
+  }
+
+  async reset(): Promise<{ success: boolean; message: string }> {
+    console.log('[MilvusVectorStore] Attempting to reset Milvus index...');
+    try {
+      const client = this.getClient();
+      const collections = await client.showCollections();
+      if (!collections.data.some((c) => c.name === COLLECTION_NAME)) {
+        console.log(
+          `[MilvusVectorStore] Collection ${COLLECTION_NAME} doesn't exist, creating new collection...`
+        );
+        await this.createCollection();
+      } else {
+        try {
+          await client.dropIndex({ collection_name: COLLECTION_NAME });
+          console.log('[MilvusVectorStore] Dropped existing index.');
+        } catch (error) {
+          console.log(
+            '[MilvusVectorStore] No existing index to drop or error dropping index:',
+            error
+          );
+        }
+      }
+
+      await this.createIndex();
+      await client.loadCollection({ collection_name: COLLECTION_NAME });
+      console.log('[MilvusVectorStore] Milvus index reset successfully.');
+      return { success: true, message: 'Milvus index reset successfully' };
+    } catch (error) {
+      console.error('[MilvusVectorStore] Error resetting Milvus index:', error);
+      return { success: false, message: (error as Error).message };
+    }
+  }
+
+  private async createCollection() {
+    const client = this.getClient();
+    const collections = await client.showCollections();
+    if (collections.data.some((c) => c.name === COLLECTION_NAME)) {
+      return;
+    }
+
+    await client.createCollection({
+      collection_name: COLLECTION_NAME,
+      fields: [
+        {
+          name: 'id',
+          data_type: DataType.Int64,
+          is_primary_key: true,
+          autoID: true,
+        },
+        {
+          name: 'text',
+          data_type: DataType.VarChar,
+          max_length: 4000,
+        },
+        {
+          name: 'embedding',
+          data_type: DataType.FloatVector,
+          dim: this.dimension,
+        },
+        { name: 'user_id', data_type: DataType.VarChar, max_length: 50 },
+        { name: 'subject_id', data_type: DataType.VarChar, max_length: 50 },
+        { name: 'data_source_id', data_type: DataType.VarChar, max_length: 50 },
+        {
+          name: 'metadata',
+          data_type: DataType.JSON,
+          max_length: 2048,
+        },
+      ],
+    });
+
+    console.log(`[MilvusVectorStore] Collection '${COLLECTION_NAME}' created successfully.`);
+  }
+
+  /**
+   * Make sure an existing collection was created for embeddings of the configured size, which
+   * changes with the embedding model
+   */
+  private async checkDimension() {
+    const { schema } = await this.getClient().describeCollection({
+      collection_name: COLLECTION_NAME,
+    });
+    const embeddingField = schema.fields.find((field) => field.name === 'embedding');
+    const dim = Number(embeddingField?.type_params.find((param) => param.key === 'dim')?.value);
+
+    if (dim && dim !== this.dimension) {
+      throw new Error(
+        `Milvus collection ${COLLECTION_NAME} stores ${dim}-dimensional embeddings, but ` +
+          `EMBEDDING_DIMENSION is ${this.dimension}. Drop the collection and reprocess the ` +
+          `data sources to change the embedding size.`
+      );
+    }
+  }
+
+  private async createIndex() {
+    const client = this.getClient();
+
+    try {
+      const indexInfo = await client.describeIndex({ collection_name: COLLECTION_NAME });
+      const embeddingIndex = indexInfo.index_descriptions.find(
+        (index) => index.field_name === 'embedding'
+      );
+      if (embeddingIndex) return;
+    } catch (error) {
+      console.log(
+        '[MilvusVectorStore] Index does not exist or error describing index, proceeding with creation...'
+      );
+    }
+
+    await client.createIndex({
+      collection_name: COLLECTION_NAME,
+      field_name: 'embedding',
+      index_type: 'HNSW',
+      metric_type: 'COSINE',
+      params: { M: 16, efConstruction: 200 },
+    });
+
+    console.log(`[MilvusVectorStore] Index created on 'embedding' field for '${COLLECTION_NAME}'.`);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * A single embedded chunk as stored in the vector store
+ */
+export interface VectorRecord {
+  text: string;
+  embedding: number[];
+  metadata: Record<string, any>;
+  userId: string;
+  subjectId?: string | null;
+  dataSourceId: string;
+}
+
+/**
+ * Restricts a search to a user's vectors and, optionally, to specific data sources or a subject.
+ * When dataSourceIds is non-empty it takes precedence over subjectId.
+ */
+export interface VectorFilter {
+  userId: string;
+  subjectId?: string;
+  dataSourceIds?: string[];
+}
+
+export interface VectorSearchResult {
+  text: string;
+  score: number;
+  metadata: any;
+}
+
+export interface VectorStore {
+  readonly name: string;
+
+  /**
+   * Store the records, in order
+   */
+  insert(records: VectorRecord[]): Promise<void>;
+
+  /**
+   * Return the topK records most similar (cosine) to the embedding, best first
+   */
+  search(embedding: number[], filter: VectorFilter, topK: number): Promise<VectorSearchResult[]>;
+
+  deleteByDataSource(dataSourceId: string): Promise<void>;
+
+  deleteBySubject(subjectId: string): Promise<void>;
+
+  /**
+   * Move a data source's records to another subject, or to none
+   */
+  updateSubject(dataSourceId: string, subjectId: string | null): Promise<void>;
+
+  /**
+   * Rebuild the store's index, creating the underlying collection if needed
+   */
+  reset(): Promise<{ success: boolean; message: string }>;
+}
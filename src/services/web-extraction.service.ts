@@ -0,0 +1,281 @@
+import { lookup } from 'dns';
+import dns from 'dns/promises';
+import net from 'net';
+import { JSDOM } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import { Agent, fetch as undiciFetch, Response } from 'undici';
+import { YoutubeTranscript } from 'youtube-transcript';
+
+const FETCH_TIMEOUT_MS = 20000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+export interface ExtractedWebContent {
+  title: string | null;
+  text: string;
+}
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be'];
+
+/**
+ * Whether a URL points at a YouTube video
+ */
+export const isYouTubeUrl = (url: string): boolean => {
+  try {
+    return YOUTUBE_HOSTS.includes(new URL(url).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+};
+
+const getYouTubeVideoId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    const videoId =
+      parsed.hostname.toLowerCase() === 'youtu.be'
+        ? parsed.pathname.split('/')[1]
+        : parsed.searchParams.get('v') ||
+          (parsed.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/) || [])[1];
+    return videoId && /^[\w-]{11}$/.test(videoId) ? videoId : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Thumbnail image YouTube serves for a video, or null when the URL has no video ID
+ */
+export const getYouTubeThumbnailUrl = (url: string): string | null => {
+  const videoId = isYouTubeUrl(url) ? getYouTubeVideoId(url) : null;
+  return videoId ? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg` : null;
+};
+
+const PRIVATE_IPV4_SUBNETS: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  // Multicast, then reserved up to and including the broadcast address
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const PRIVATE_IPV6_SUBNETS: [string, number][] = [
+  // Unspecified, loopback and the deprecated IPv4-compatible addresses
+  ['::', 96],
+  ['64:ff9b:1::', 48],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+/**
+ * Addresses user supplied URLs may not reach. The IPv4 ranges are also blocked inside
+ * IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses, which can spell them too.
+ */
+const blockedAddresses = new net.BlockList();
+PRIVATE_IPV4_SUBNETS.forEach(([network, prefix]) => {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+  blockedAddresses.addSubnet(`::ffff:${network}`, 96 + prefix, 'ipv6');
+  blockedAddresses.addSubnet(`64:ff9b::${network}`, 96 + prefix, 'ipv6');
+});
+PRIVATE_IPV6_SUBNETS.forEach(([network, prefix]) => {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+});
+
+const isPrivateAddress = (address: string): boolean =>
+  blockedAddresses.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+
+/**
+ * DNS lookup for outgoing connections that refuses private addresses. Checking the address the
+ * socket connects to stops DNS rebinding, where a name resolves to a public address when the
+ * URL is checked and to a private one when it is fetched.
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      return callback(new Error('URL must point to a public address'), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Only allow http(s) URLs that resolve to public addresses, so user supplied URLs cannot be
+ * used to reach services on the server's network
+ */
+export const assertPublicHttpUrl = async (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new Error('Only http and https URLs are supported');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('URL must point to a public address');
+  }
+};
+
+/**
+ * Fetch a URL, following redirects by hand so every hop is checked with assertPublicHttpUrl.
+ * Connections go through publicAgent, so the address that is connected to is checked as well.
+ */
+const fetchPublicUrl = async (url: string): Promise<Response> => {
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicHttpUrl(currentUrl);
+    const response = await undiciFetch(currentUrl, {
+      dispatcher: publicAgent,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; LearnAbilityBot/1.0)',
+        Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9',
+      },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Website responded with ${response.status}`);
+    }
+    return response;
+  }
+
+  throw new Error('Too many redirects');
+};
+
+/**
+ * Read a response body as text, giving up as soon as it grows past the size limit. The
+ * Content-Length header cannot be relied on, as servers may leave it out or misstate it.
+ */
+const readLimitedText = async (response: Response, maxBytes: number) => {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error('Web page is too large to import');
+    }
+    chunks.push(value);
+  }
+
+  return new TextDecoder('utf-8').decode(Buffer.concat(chunks));
+};
+
+/**
+ * Normalise whitespace of extracted text while keeping paragraph breaks
+ */
+const cleanText = (text: string) =>
+  text
+    .replace(/\r/g, '')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Download a web page and extract its readable article text
+ */
+export const extractWebsiteContent = async (url: string): Promise<ExtractedWebContent> => {
+  console.log(`[WebExtractionService] Fetching website: ${url}`);
+  const response = await fetchPublicUrl(url);
+
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > MAX_PAGE_BYTES) {
+    throw new Error('Web page is too large to import');
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  const body = await readLimitedText(response, MAX_PAGE_BYTES);
+
+  if (contentType.startsWith('text/plain')) {
+    return { title: null, text: cleanText(body) };
+  }
+
+  const dom = new JSDOM(body, { url });
+  const document = dom.window.document;
+  const article = new Readability(document).parse();
+
+  // Pages Readability cannot make sense of fall back to the whole body text
+  const text = cleanText(article?.textContent || document.body?.textContent || '');
+  const title = article?.title || document.title || null;
+  dom.window.close();
+
+  if (!text) {
+    throw new Error('No readable text found on the web page');
+  }
+
+  console.log(`[WebExtractionService] Extracted ${text.length} characters from ${url}`);
+  return { title, text };
+};
+
+/**
+ * Look up the title of a YouTube video through its public oEmbed endpoint
+ */
+const fetchYouTubeTitle = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(
+      `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(url)}`,
+      { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }
+    );
+    if (!response.ok) return null;
+    const data = await response.json();
+    return typeof data?.title === 'string' ? data.title : null;
+  } catch (error) {
+    console.warn(`[WebExtractionService] Could not fetch YouTube title for ${url}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetch the transcript (captions) of a YouTube video as plain text
+ */
+export const extractYouTubeTranscript = async (url: string): Promise<ExtractedWebContent> => {
+  console.log(`[WebExtractionService] Fetching YouTube transcript: ${url}`);
+
+  const [segments, title] = await Promise.all([
+    YoutubeTranscript.fetchTranscript(url),
+    fetchYouTubeTitle(url),
+  ]);
+
+  const text = cleanText(segments.map((segment) => segment.text).join(' '));
+  if (!text) {
+    throw new Error('The video has no transcript');
+  }
+
+  console.log(`[WebExtractionService] Extracted ${text.length} transcript characters from ${url}`);
+  return { title, text };
+};